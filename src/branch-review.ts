@@ -0,0 +1,207 @@
+import * as path from 'path';
+import { ThemeIcon, TreeItemCollapsibleState, window, workspace } from 'vscode';
+
+import { CommentListEntry } from './comment-list-entry';
+import { FileGenerator } from './file-generator';
+import { BranchReviewCoverage, BranchReviewState } from './interfaces';
+import { CsvEntry } from './model';
+import { deleteFile, readFileContent, writeFileContent } from './utils/fs-utils';
+import { getGitChangedFiles } from './utils/git-utils';
+import {
+  getGitRepositoryPath,
+  getWorkspaceFolderOfFile,
+  removeLeadingSlash,
+  resolveWorkspacePath,
+  toWorkspaceRelativePath,
+  toWorkspaceUri,
+} from './utils/workspace-util';
+
+/**
+ * Track the files changed on a branch and their review progress
+ */
+export class BranchReview {
+  /** The state of the current branch review, undefined if no branch review was started (see `load()`) */
+  state: BranchReviewState | undefined;
+
+  constructor(private workspaceRoot: string, private generator: FileGenerator) {}
+
+  /**
+   * Read the state of the branch review of the active session
+   */
+  async load() {
+    const stateFile = this.generator.branchReviewFilePath;
+    const content = await readFileContent(toWorkspaceUri(stateFile));
+    this.state = undefined;
+    if (content === undefined) {
+      return;
+    }
+
+    try {
+      this.state = JSON.parse(content) as BranchReviewState;
+    } catch (error) {
+      console.log('Cannot read the branch review', stateFile, error);
+    }
+  }
+
+  /**
+   * Start the review of the files changed since a base ref in the git repositories of all workspace folders
+   * (the reviewed marks of the files still changed are kept)
+   *
+   * @param base The ref the current branch is compared to
+   * @return Promise<boolean> true if the review was started, false otherwise
+   */
+  async start(base: string): Promise<boolean> {
+    const folders = workspace.workspaceFolders ?? [];
+    const gitRepositoryPaths = [
+      ...new Set(
+        folders.length
+          ? folders.map((folder) => getGitRepositoryPath(folder.uri.fsPath))
+          : [getGitRepositoryPath(this.workspaceRoot)],
+      ),
+    ];
+
+    const changes = gitRepositoryPaths.map((gitRepositoryPath) => ({
+      gitRepositoryPath,
+      changedFiles: getGitChangedFiles(gitRepositoryPath, base),
+    }));
+    if (changes.every(({ changedFiles }) => !changedFiles)) {
+      window.showErrorMessage(
+        `Cannot compute the files changed since '${base}' in '${gitRepositoryPaths.join("', '")}'.`,
+      );
+      return false;
+    }
+
+    const reviewedFiles = (this.state?.files ?? []).filter((file) => file.reviewed).map((file) => file.file);
+    // the repositories without the base ref are ignored
+    const files = changes
+      .reduce(
+        (changedFiles: string[], change) => [
+          ...changedFiles,
+          ...(change.changedFiles ?? []).map((changedFile) => path.join(change.gitRepositoryPath, changedFile)),
+        ],
+        [],
+      )
+      // the files of a repository outside of the workspace folders cannot be opened from the comments view
+      .filter((changedFile) => !folders.length || getWorkspaceFolderOfFile(folders, changedFile))
+      .map((changedFile) => {
+        // same format as the filename of the comments
+        const file = toWorkspaceRelativePath(this.workspaceRoot, changedFile, folders);
+        return { file, reviewed: reviewedFiles.includes(file) };
+      });
+
+    await this.persist({ base, started: new Date().toISOString(), files });
+    return true;
+  }
+
+  /**
+   * Stop the branch review
+   */
+  async stop() {
+    this.state = undefined;
+    await deleteFile(toWorkspaceUri(this.generator.branchReviewFilePath));
+  }
+
+  /**
+   * Switch the reviewed mark of a changed file
+   *
+   * @param file The path of the file relative to the workspace
+   */
+  async toggleReviewed(file: string) {
+    const state = this.state;
+    const reviewFile = state?.files.find((changedFile) => changedFile.file === file);
+    if (!state || !reviewFile) {
+      return;
+    }
+
+    reviewFile.reviewed = !reviewFile.reviewed;
+    await this.persist(state);
+  }
+
+  /**
+   * Compute the review coverage of the changed files
+   *
+   * @param entries All comments
+   * @return BranchReviewCoverage or undefined if no branch review was started
+   */
+  getCoverage(entries: CsvEntry[]): BranchReviewCoverage | undefined {
+    const state = this.state;
+    if (!state) {
+      return undefined;
+    }
+
+    const files = state.files.map((changedFile) => {
+      const filePath = resolveWorkspacePath(this.workspaceRoot, changedFile.file);
+      const comments = entries.filter(
+        (entry) => entry.filename && resolveWorkspacePath(this.workspaceRoot, entry.filename) === filePath,
+      ).length;
+      return { ...changedFile, comments };
+    });
+    const reviewed = files.filter((file) => file.reviewed).length;
+
+    return {
+      base: state.base,
+      reviewed,
+      total: files.length,
+      percent: files.length ? Math.round((reviewed / files.length) * 100) : 100,
+      files,
+    };
+  }
+
+  /**
+   * get the "Files to review" section as CommentListEntry for VSCode view
+   *
+   * @return CommentListEntry[] The section, or an empty list if no branch review was started
+   */
+  getRootEntries(): CommentListEntry[] {
+    const coverage = this.getCoverage([]);
+    if (!coverage) {
+      return [];
+    }
+
+    const item = new CommentListEntry(
+      'Files to review',
+      `${coverage.reviewed}/${coverage.total} reviewed (${coverage.percent}%)`,
+      `Files changed since '${coverage.base}'`,
+      TreeItemCollapsibleState.Expanded,
+      { group: '', lines: [] },
+    );
+    item.contextValue = 'branchReview';
+    item.iconPath = new ThemeIcon('git-compare');
+    return [item];
+  }
+
+  /**
+   * get the changed files as CommentListEntry for VSCode view
+   */
+  getFileEntries(): Thenable<CommentListEntry[]> {
+    const files = this.state?.files ?? [];
+    const result = files.map((changedFile) => {
+      const item = new CommentListEntry(
+        removeLeadingSlash(changedFile.file.replace(/\\/g, '/')),
+        changedFile.reviewed ? 'reviewed' : '',
+        changedFile.reviewed ? 'Reviewed' : 'Not reviewed',
+        TreeItemCollapsibleState.None,
+        { group: changedFile.file, lines: [] },
+      );
+      item.command = {
+        command: 'codeReview.openSelection',
+        title: 'Open file',
+        arguments: [item.data],
+      };
+      item.contextValue = changedFile.reviewed ? 'reviewedFile' : 'unreviewedFile';
+      item.iconPath = new ThemeIcon(changedFile.reviewed ? 'pass' : 'circle-outline');
+      return item;
+    });
+    return Promise.resolve(result);
+  }
+
+  /**
+   * Store the state of the branch review
+   *
+   * @param state The state to store
+   */
+  private async persist(state: BranchReviewState) {
+    this.state = state;
+    await writeFileContent(toWorkspaceUri(this.generator.branchReviewFilePath), JSON.stringify(state, null, 2));
+  }
+}
@@ -0,0 +1,83 @@
+import { Disposable, Range, TextDocument, workspace } from 'vscode';
+
+import { ReviewCommentService } from './review-comment';
+import { CommentScope, CsvEntry, getCommentScope, isOrphaned } from './model';
+import { filterCommentsForFile, rangesFromStringDefinition } from './utils/workspace-util';
+import { getRangesStringDefinition } from './utils/editor-utils';
+import { hashLines, relocateRange, sortRanges, splitFingerprints } from './utils/anchor-utils';
+
+/**
+ * Keep the comments attached to the commented code when it moves
+ */
+export class CommentAnchoring implements Disposable {
+  private disposables: Disposable[] = [];
+
+  constructor(private commentService: ReviewCommentService, private workspaceRoot: string) {
+    this.disposables.push(
+      workspace.onDidOpenTextDocument((document) => this.reanchor(document)),
+      workspace.onDidSaveTextDocument((document) => this.reanchor(document)),
+    );
+  }
+
+  /**
+   * Relocate the comments of a document and store the changes
+   *
+   * @param document The opened or saved document
+   */
+  reanchor(document: TextDocument): Promise<void> {
+    if (document.uri.scheme !== 'file') {
+      return Promise.resolve();
+    }
+
+    return this.commentService.getComments().then((entries) => {
+      // the document is hashed once for all comments
+      const lineHashes = hashLines(document.getText().split(/\r?\n/));
+      const changed = filterCommentsForFile(entries, this.workspaceRoot, document.uri.fsPath)
+        .filter((entry) => getCommentScope(entry) === CommentScope.lines)
+        .filter((entry) => this.relocate(entry, lineHashes));
+
+      if (changed.length) {
+        return this.commentService.updateAnchors(changed);
+      }
+    });
+  }
+
+  dispose() {
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * Relocate the ranges of a comment using their fingerprints
+   *
+   * @param entry The comment to update
+   * @param lineHashes The hashes of all lines of the document
+   * @return boolean true if the comment was modified
+   */
+  private relocate(entry: CsvEntry, lineHashes: string[]): boolean {
+    const ranges = sortRanges(rangesFromStringDefinition(entry.lines));
+    const fingerprints = splitFingerprints(entry.fingerprints);
+
+    if (fingerprints.length !== ranges.length) {
+      // comments made without fingerprints are tracked once they are edited (see `ReviewCommentService.updateComment`)
+      return false;
+    }
+
+    const relocated = ranges.map((range, index) => relocateRange(lineHashes, range, fingerprints[index]));
+    if (relocated.some((range) => !range)) {
+      const wasOrphaned = isOrphaned(entry);
+      entry.orphaned = true;
+      return !wasOrphaned;
+    }
+
+    const newLines = getRangesStringDefinition(relocated as Range[]);
+    const isChanged = newLines !== entry.lines || isOrphaned(entry);
+    if (newLines !== entry.lines) {
+      // the changes since the commit of the comment are related to its former lines
+      entry.reviewedLines = entry.reviewedLines || entry.lines;
+    }
+    entry.lines = newLines;
+    entry.orphaned = false;
+    return isChanged;
+  }
+}
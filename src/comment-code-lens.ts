@@ -0,0 +1,61 @@
+import { CancellationToken, CodeLens, CodeLensProvider, Event, EventEmitter, Range, TextDocument } from 'vscode';
+
+import { ReviewCommentService } from './review-comment';
+import { CsvEntry } from './model';
+import { ReviewFileExportSection } from './interfaces';
+import { filterCommentsForFile, rangesFromStringDefinition } from './utils/workspace-util';
+import { getPriorityName } from './utils/priority-utils';
+
+/**
+ * Show a summary of the review comments above each commented range
+ */
+export class CommentCodeLensProvider implements CodeLensProvider {
+  private _onDidChangeCodeLenses: EventEmitter<void> = new EventEmitter<void>();
+  readonly onDidChangeCodeLenses: Event<void> = this._onDidChangeCodeLenses.event;
+
+  constructor(private commentService: ReviewCommentService, private workspaceRoot: string) {}
+
+  refresh(): void {
+    this._onDidChangeCodeLenses.fire();
+  }
+
+  provideCodeLenses(document: TextDocument, _token: CancellationToken): Promise<CodeLens[]> {
+    return this.commentService.getComments().then((entries) => {
+      // group the comments by the first line of their ranges
+      const entriesByLine = new Map<number, CsvEntry[]>();
+      filterCommentsForFile(entries, this.workspaceRoot, document.uri.fsPath).forEach((entry) => {
+        rangesFromStringDefinition(entry.lines).forEach((range) => {
+          const lineEntries = entriesByLine.get(range.start.line) ?? [];
+          if (!lineEntries.includes(entry)) {
+            lineEntries.push(entry);
+          }
+          entriesByLine.set(range.start.line, lineEntries);
+        });
+      });
+
+      return Array.from(entriesByLine, ([line, lineEntries]) => this.buildCodeLens(line, lineEntries));
+    });
+  }
+
+  /**
+   * Build the lens for the comments starting on a line
+   *
+   * @param line The line of the lens
+   * @param entries The comments starting on the line
+   * @return CodeLens
+   */
+  private buildCodeLens(line: number, entries: CsvEntry[]): CodeLens {
+    // the comment with the highest priority is opened
+    const [entry] = [...entries].sort((a, b) => (Number(b.priority) || 0) - (Number(a.priority) || 0));
+    const priority = getPriorityName(Number(entry.priority) || 0);
+    const notes = entries.length === 1 ? 'review note' : 'review notes';
+    const fileSection: ReviewFileExportSection = { group: entry.filename, lines: entries };
+
+    return new CodeLens(new Range(line, 0, line, 0), {
+      title: `💬 ${entries.length} ${notes} (${priority})`,
+      tooltip: entries.map((lineEntry) => lineEntry.title || lineEntry.comment).join('\n'),
+      command: 'codeReview.openSelection',
+      arguments: [fileSection, entry],
+    });
+  }
+}
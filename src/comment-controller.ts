@@ -0,0 +1,218 @@
+import {
+  comments,
+  Comment,
+  CommentAuthorInformation,
+  CommentController,
+  CommentMode,
+  CommentReply as ThreadReply,
+  CommentThread,
+  CommentThreadCollapsibleState,
+  Disposable,
+  MarkdownString,
+  Range,
+} from 'vscode';
+
+import { ReviewCommentService } from './review-comment';
+import { CommentReply, createCommentFromObject, CsvEntry, getStatusLabel, parseReplies } from './model';
+import { rangesFromStringDefinition, resolveWorkspacePath, toWorkspaceUri } from './utils/workspace-util';
+
+/**
+ * Inline representation of a stored review comment
+ */
+export class ReviewThreadComment implements Comment {
+  public mode = CommentMode.Preview;
+  public readonly contextValue = 'note';
+  public readonly author: CommentAuthorInformation;
+  public readonly label: string;
+  public body: string | MarkdownString;
+
+  constructor(public readonly entry: CsvEntry, public readonly thread: CommentThread) {
+    this.author = { name: entry.author || 'Code Review' };
+    this.label = getStatusLabel(entry.status);
+    this.body = entry.comment;
+  }
+}
+
+/**
+ * Inline representation of a reply to a stored review comment
+ */
+export class ReviewThreadReply implements Comment {
+  public readonly mode = CommentMode.Preview;
+  public readonly contextValue = 'reply';
+  public readonly author: CommentAuthorInformation;
+  public readonly label: string;
+  public readonly body: string;
+
+  constructor(reply: CommentReply) {
+    this.author = { name: reply.author || 'unknown' };
+    this.label = new Date(reply.date).toLocaleString();
+    this.body = reply.comment;
+  }
+}
+
+/**
+ * Render the review comments as comment threads in the editors
+ */
+export class ReviewCommentController implements Disposable {
+  private readonly controller: CommentController;
+  /** The threads by `<comment id>:<index of the range>` */
+  private threads = new Map<string, CommentThread>();
+
+  constructor(private commentService: ReviewCommentService, private workspaceRoot: string) {
+    this.controller = comments.createCommentController('code-review', 'Code Review');
+    this.controller.options = {
+      prompt: 'Add a code review note',
+      placeHolder: "A detailed description (e.g. 'Split method into smaller functions and utils')",
+    };
+    // allow to comment every line of a document
+    this.controller.commentingRangeProvider = {
+      provideCommentingRanges: (document) => [new Range(0, 0, Math.max(document.lineCount - 1, 0), 0)],
+    };
+  }
+
+  /**
+   * Update the threads from the stored comments
+   * (the threads are updated in place to keep their state, only the ones of added or removed ranges are created or disposed)
+   */
+  refresh(): Promise<void> {
+    return this.commentService.getComments().then((entries) => {
+      const threads = new Map<string, CommentThread>();
+      entries.forEach((entry) => {
+        const uri = toWorkspaceUri(resolveWorkspacePath(this.workspaceRoot, entry.filename));
+        rangesFromStringDefinition(entry.lines).forEach((range, index) => {
+          const key = `${entry.id}:${index}`;
+          let thread = this.threads.get(key);
+          if (thread && thread.uri.toString() === uri.toString()) {
+            this.threads.delete(key);
+            thread.range = range;
+          } else {
+            thread = this.controller.createCommentThread(uri, range, []);
+            thread.collapsibleState = CommentThreadCollapsibleState.Collapsed;
+          }
+          this.updateThread(thread, entry);
+          threads.set(key, thread);
+        });
+      });
+
+      // the remaining threads belong to removed comments or ranges
+      this.disposeThreads();
+      this.threads = threads;
+    });
+  }
+
+  /**
+   * Store a new comment created in an empty thread
+   *
+   * @param reply The thread and the text entered by the user
+   */
+  async createNote(reply: ThreadReply) {
+    const entry = createCommentFromObject(JSON.stringify({ comment: reply.text }));
+    await this.commentService.addCommentForRanges(entry, reply.thread.uri.fsPath, [reply.thread.range]);
+    reply.thread.dispose();
+
+    return this.refresh();
+  }
+
+  /**
+   * Store a reply to the comment of a thread
+   *
+   * @param reply The thread and the text entered by the user
+   */
+  async replyToNote(reply: ThreadReply) {
+    const note = reply.thread.comments.find((comment) => comment instanceof ReviewThreadComment);
+    if (!note) {
+      return;
+    }
+
+    await this.commentService.addReply((note as ReviewThreadComment).entry, reply.text);
+
+    return this.refresh();
+  }
+
+  /**
+   * Switch a comment to the edit mode
+   *
+   * @param comment The comment to edit
+   */
+  async editNote(comment: ReviewThreadComment) {
+    await this.commentService.startEdit(comment.entry.id);
+    comment.mode = CommentMode.Editing;
+    this.redraw(comment.thread);
+  }
+
+  /**
+   * Store the modifications of a comment
+   *
+   * @param comment The edited comment
+   */
+  async saveNote(comment: ReviewThreadComment) {
+    const text = typeof comment.body === 'string' ? comment.body : comment.body.value;
+    await this.commentService.updateComment({ ...comment.entry, comment: text });
+    this.commentService.endEdit(comment.entry.id);
+    comment.mode = CommentMode.Preview;
+
+    return this.refresh();
+  }
+
+  /**
+   * Abort the modifications of a comment
+   *
+   * @param comment The edited comment
+   */
+  cancelEditNote(comment: ReviewThreadComment) {
+    this.commentService.endEdit(comment.entry.id);
+    comment.body = comment.entry.comment;
+    comment.mode = CommentMode.Preview;
+    this.redraw(comment.thread);
+  }
+
+  /**
+   * Delete a stored comment
+   *
+   * @param comment The comment to delete
+   */
+  async deleteNote(comment: ReviewThreadComment) {
+    await this.commentService.deleteComment(comment.entry.id);
+
+    return this.refresh();
+  }
+
+  dispose() {
+    this.disposeThreads();
+    this.controller.dispose();
+  }
+
+  /**
+   * Show a stored comment and its replies in a thread
+   *
+   * @param thread The thread of a range of the comment
+   * @param entry The stored comment
+   */
+  private updateThread(thread: CommentThread, entry: CsvEntry) {
+    const note = thread.comments.find((comment) => comment instanceof ReviewThreadComment);
+    if (note?.mode === CommentMode.Editing) {
+      // the text being edited is kept
+      return;
+    }
+
+    thread.label = entry.title;
+    thread.comments = [
+      new ReviewThreadComment(entry, thread),
+      ...parseReplies(entry.replies).map((reply) => new ReviewThreadReply(reply)),
+    ];
+  }
+
+  /**
+   * Force the update of the comments of a thread
+   *
+   * @param thread The thread to update
+   */
+  private redraw(thread: CommentThread) {
+    thread.comments = [...thread.comments];
+  }
+
+  private disposeThreads() {
+    this.threads.forEach((thread) => thread.dispose());
+    this.threads.clear();
+  }
+}
@@ -0,0 +1,90 @@
+import * as path from 'path';
+import {
+  Disposable,
+  ExtensionContext,
+  OverviewRulerLane,
+  Range,
+  TextEditor,
+  TextEditorDecorationType,
+  window,
+  workspace,
+} from 'vscode';
+
+import { ReviewCommentService } from './review-comment';
+import { CsvEntry } from './model';
+import { filterCommentsForFile, rangesFromStringDefinition } from './utils/workspace-util';
+import { getPriorityColor, getPriorityIconName } from './utils/priority-utils';
+
+/**
+ * Persistent gutter and overview ruler markers for the commented lines in the visible editors
+ */
+export class CommentDecorations implements Disposable {
+  /** One decoration type per priority (index = priority) */
+  private readonly decorationTypes: TextEditorDecorationType[];
+  private entries: CsvEntry[] = [];
+  private disposables: Disposable[] = [];
+
+  constructor(context: ExtensionContext, private commentService: ReviewCommentService, private workspaceRoot: string) {
+    this.decorationTypes = [0, 1, 2, 3].map((priority) =>
+      window.createTextEditorDecorationType({
+        gutterIconPath: context.asAbsolutePath(path.join('dist', getPriorityIconName(priority))),
+        gutterIconSize: 'contain',
+        overviewRulerColor: getPriorityColor(priority),
+        overviewRulerLane: OverviewRulerLane.Right,
+      }),
+    );
+
+    this.disposables.push(
+      window.onDidChangeActiveTextEditor(() => this.update()),
+      window.onDidChangeVisibleTextEditors(() => this.update()),
+      workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('code-review.showDecorations')) {
+          this.update();
+        }
+      }),
+    );
+  }
+
+  /**
+   * Reload the comments and update the decorations
+   */
+  refresh(): Promise<void> {
+    return this.commentService.getComments().then((entries) => {
+      this.entries = entries;
+      this.update();
+    });
+  }
+
+  /**
+   * Update the decorations of all visible editors
+   */
+  update() {
+    const enabled = workspace.getConfiguration().get('code-review.showDecorations') as boolean;
+    window.visibleTextEditors.forEach((editor) => this.decorate(editor, enabled ? this.entries : []));
+  }
+
+  dispose() {
+    this.decorationTypes.forEach((decorationType) => decorationType.dispose());
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * Apply the decorations for the comments of the file opened in an editor
+   *
+   * @param editor The editor to decorate
+   * @param entries All comments
+   */
+  private decorate(editor: TextEditor, entries: CsvEntry[]) {
+    const rangesByPriority: Range[][] = this.decorationTypes.map(() => []);
+
+    filterCommentsForFile(entries, this.workspaceRoot, editor.document.uri.fsPath).forEach((entry) => {
+      const priority = Number(entry.priority) || 0;
+      rangesByPriority[priority]?.push(...rangesFromStringDefinition(entry.lines));
+    });
+
+    this.decorationTypes.forEach((decorationType, priority) =>
+      editor.setDecorations(decorationType, rangesByPriority[priority]),
+    );
+  }
+}
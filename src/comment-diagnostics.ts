@@ -0,0 +1,103 @@
+import { Diagnostic, DiagnosticCollection, DiagnosticSeverity, Disposable, languages, Range, workspace } from 'vscode';
+
+import { ReviewCommentService } from './review-comment';
+import { CommentScope, CommentStatus, CsvEntry, getCommentScope } from './model';
+import { rangesFromStringDefinition, resolveWorkspacePath, toWorkspaceUri } from './utils/workspace-util';
+
+/**
+ * Map a priority to the severity of a diagnostic
+ *
+ * @param priority The priority (0: none, 1: low, 2: medium, 3: high)
+ * @return DiagnosticSeverity
+ */
+const severityForPriority = (priority: number): DiagnosticSeverity => {
+  switch (priority) {
+    case 3:
+      return DiagnosticSeverity.Error;
+    case 2:
+      return DiagnosticSeverity.Warning;
+    case 1:
+      return DiagnosticSeverity.Information;
+    default:
+      return DiagnosticSeverity.Hint;
+  }
+};
+
+/**
+ * Publish the review comments in the Problems panel
+ */
+export class CommentDiagnostics implements Disposable {
+  private readonly collection: DiagnosticCollection;
+  private disposables: Disposable[] = [];
+
+  constructor(private commentService: ReviewCommentService, private workspaceRoot: string) {
+    this.collection = languages.createDiagnosticCollection('code-review');
+
+    this.disposables.push(
+      workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('code-review.showDiagnostics')) {
+          this.refresh();
+        }
+      }),
+    );
+  }
+
+  /**
+   * Reload the comments and update the diagnostics
+   */
+  refresh(): Promise<void> {
+    if (!workspace.getConfiguration().get('code-review.showDiagnostics')) {
+      this.collection.clear();
+      return Promise.resolve();
+    }
+
+    return this.commentService.getComments().then((entries) => {
+      const diagnosticsByFile = new Map<string, Diagnostic[]>();
+
+      entries
+        // comments that don't require any further action are not reported
+        .filter((entry) => entry.status !== CommentStatus.resolved && entry.status !== CommentStatus.wontFix)
+        // comments on the whole project are not related to a file
+        .filter((entry) => getCommentScope(entry) !== CommentScope.project)
+        .forEach((entry) => {
+          const filePath = resolveWorkspacePath(this.workspaceRoot, entry.filename);
+          const diagnostics = diagnosticsByFile.get(filePath) ?? [];
+          diagnostics.push(...this.buildDiagnostics(entry));
+          diagnosticsByFile.set(filePath, diagnostics);
+        });
+
+      this.collection.clear();
+      diagnosticsByFile.forEach((diagnostics, filePath) => this.collection.set(toWorkspaceUri(filePath), diagnostics));
+    });
+  }
+
+  dispose() {
+    this.collection.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
+
+  /**
+   * Build a diagnostic for every range of a comment
+   *
+   * @param entry The comment
+   * @return Diagnostic[]
+   */
+  private buildDiagnostics(entry: CsvEntry): Diagnostic[] {
+    const message = entry.title ? `${entry.title}: ${entry.comment}` : entry.comment;
+    const severity = severityForPriority(Number(entry.priority) || 0);
+
+    // comments on a whole file are reported on its first line
+    const ranges =
+      getCommentScope(entry) === CommentScope.file ? [new Range(0, 0, 0, 0)] : rangesFromStringDefinition(entry.lines);
+
+    return ranges.map((range) => {
+      const diagnostic = new Diagnostic(range, message, severity);
+      diagnostic.source = 'code-review';
+      if (entry.category) {
+        diagnostic.code = entry.category;
+      }
+      return diagnostic;
+    });
+  }
+}
@@ -0,0 +1,86 @@
+import { QuickPickItem, window, workspace } from 'vscode';
+
+import { ReviewCommentService } from './review-comment';
+import { CommentStatus, commentStatusLabels } from './model';
+import { getPriorityName } from './utils/priority-utils';
+import { CommentFilter } from './utils/filter-utils';
+
+/**
+ * A priority, category or state to filter the comments by
+ */
+interface FilterQuickPickItem extends QuickPickItem {
+  priority?: number;
+  category?: string;
+  status?: CommentStatus;
+}
+
+/**
+ * Let the user choose the filter of the Comment Explorer
+ */
+export class CommentFilterPicker {
+  constructor(private commentService: ReviewCommentService) {}
+
+  /**
+   * Show the selection of the priorities, categories and states, followed by the text filter
+   *
+   * @param current The filter currently applied
+   * @return the chosen filter, or undefined if the user cancelled
+   */
+  async pick(current: CommentFilter): Promise<CommentFilter | undefined> {
+    const selected = await window.showQuickPick(await this.buildItems(current), {
+      canPickMany: true,
+      placeHolder: 'Show only the comments with the selected priorities, categories and states',
+    });
+    if (!selected) {
+      return undefined;
+    }
+
+    const text = await window.showInputBox({
+      prompt: 'Show only the comments containing this text (leave empty to skip)',
+      value: current.text,
+    });
+    if (text === undefined) {
+      return undefined;
+    }
+
+    return {
+      priorities: selected.filter((item) => item.priority !== undefined).map((item) => item.priority!),
+      categories: selected.filter((item) => item.category !== undefined).map((item) => item.category!),
+      statuses: selected.filter((item) => item.status !== undefined).map((item) => item.status!),
+      text,
+    };
+  }
+
+  /**
+   * Build the items of the selection, the configured categories are completed by the used ones
+   *
+   * @param current The filter currently applied
+   * @return FilterQuickPickItem[]
+   */
+  private async buildItems(current: CommentFilter): Promise<FilterQuickPickItem[]> {
+    const configuredCategories = (workspace.getConfiguration().get('code-review.categories') as string[]) ?? [];
+    const usedCategories = (await this.commentService.getComments()).map((entry) => entry.category || 'Other');
+    const categories = Array.from(new Set([...configuredCategories, ...usedCategories]));
+
+    const priorityItems = [3, 2, 1, 0].map((priority) => ({
+      label: getPriorityName(priority),
+      description: 'priority',
+      priority,
+      picked: current.priorities.includes(priority),
+    }));
+    const categoryItems = categories.map((category) => ({
+      label: category,
+      description: 'category',
+      category,
+      picked: current.categories.includes(category),
+    }));
+    const statusItems = Array.from(commentStatusLabels, ([status, label]) => ({
+      label,
+      description: 'status',
+      status,
+      picked: current.statuses.includes(status),
+    }));
+
+    return [...priorityItems, ...categoryItems, ...statusItems];
+  }
+}
@@ -0,0 +1,84 @@
+import { CancellationToken, Hover, HoverProvider, MarkdownString, Position, TextDocument } from 'vscode';
+
+import { ReviewCommentService } from './review-comment';
+import { CommentStatus, CsvEntry, getStatusLabel } from './model';
+import { ReviewFileExportSection } from './interfaces';
+import { filterCommentsForFile, rangesFromStringDefinition } from './utils/workspace-util';
+import { getPriorityName } from './utils/priority-utils';
+import { StaleCommentDetector } from './comment-staleness';
+
+/**
+ * Build a markdown link executing a command
+ *
+ * @param title The text of the link
+ * @param command The command to execute
+ * @param args The arguments passed to the command
+ * @return string
+ */
+const commandLink = (title: string, command: string, args: unknown[]): string =>
+  `[${title}](command:${command}?${encodeURIComponent(JSON.stringify(args))})`;
+
+/**
+ * Show the review comments when hovering commented code
+ */
+export class CommentHoverProvider implements HoverProvider {
+  constructor(
+    private commentService: ReviewCommentService,
+    private workspaceRoot: string,
+    private staleDetector: StaleCommentDetector,
+  ) {}
+
+  provideHover(document: TextDocument, position: Position, _token: CancellationToken): Promise<Hover | undefined> {
+    return this.commentService.getComments().then((entries) => {
+      const matches = filterCommentsForFile(entries, this.workspaceRoot, document.uri.fsPath).filter((entry) =>
+        rangesFromStringDefinition(entry.lines).some((range) => range.contains(position)),
+      );
+
+      if (!matches.length) {
+        return undefined;
+      }
+
+      return new Hover(
+        matches.reduce((contents: MarkdownString[], entry) => [...contents, ...this.buildContent(entry)], []),
+      );
+    });
+  }
+
+  /**
+   * Render a comment as markdown
+   * The text of the review file is not trusted (its command links are disabled), only the actions are
+   *
+   * @param entry The comment to render
+   * @return MarkdownString[] The comment and its actions
+   */
+  private buildContent(entry: CsvEntry): MarkdownString[] {
+    const priority = getPriorityName(Number(entry.priority) || 0);
+    const details = [`Priority: ${priority}`, `Status: ${getStatusLabel(entry.status)}`];
+    if (entry.category) {
+      details.push(`Category: ${entry.category}`);
+    }
+
+    const fileSection: ReviewFileExportSection = { group: entry.filename, lines: [entry] };
+    const actions = [
+      commandLink('Edit', 'codeReview.openSelection', [fileSection, entry]),
+      commandLink('Delete', 'codeReview.deleteNote', [{ label: entry.title, csvEntry: entry }]),
+      commandLink('Resolve', 'codeReview.setStatus', [{ label: entry.title, csvEntry: entry }, CommentStatus.resolved]),
+    ];
+
+    const content = new MarkdownString();
+    content.appendMarkdown('**');
+    content.appendText(entry.title || 'Code Review');
+    content.appendMarkdown('**\n\n_');
+    content.appendText(details.join(' | '));
+    content.appendMarkdown('_\n\n');
+    if (this.staleDetector.isStale(entry)) {
+      content.appendMarkdown(`**⚠ Code changed since review**\n\n`);
+    }
+    content.appendMarkdown(entry.comment);
+
+    const commands = new MarkdownString(actions.join(' | '));
+    commands.isTrusted = true;
+
+    return [content, commands];
+  }
+}
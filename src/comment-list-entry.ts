@@ -2,6 +2,7 @@
 import { TreeItem, TreeItemCollapsibleState } from 'vscode';
 
 import { ReviewFileExportSection } from './interfaces';
+import { CsvEntry, getStatusLabel, isOrphaned } from './model';
 
 export class CommentListEntry extends TreeItem {
   constructor(
@@ -11,6 +12,7 @@ export class CommentListEntry extends TreeItem {
     public readonly collapsibleState: TreeItemCollapsibleState,
     public readonly data: ReviewFileExportSection,
     public readonly prio?: number,
+    public readonly csvEntry?: CsvEntry,
   ) {
     super(label, collapsibleState);
   }
@@ -20,6 +22,12 @@ export class CommentListEntry extends TreeItem {
   }
 
   get description(): string {
-    return this.text;
+    if (!this.csvEntry) {
+      return this.text;
+    }
+
+    const orphaned = isOrphaned(this.csvEntry) ? '[orphaned] ' : '';
+    const stale = this.csvEntry.stale ? '[code changed since review] ' : '';
+    return `${orphaned}${stale}[${getStatusLabel(this.csvEntry.status)}] ${this.text}`;
   }
 }
@@ -0,0 +1,139 @@
+import { commands, Range, Selection, TextEditorRevealType, ViewColumn, window, workspace } from 'vscode';
+
+import { ReviewCommentService } from './review-comment';
+import { CsvEntry } from './model';
+import { ReviewFileExportSection } from './interfaces';
+import {
+  rangesFromStringDefinition,
+  resolveWorkspacePath,
+  sortCsvEntryForLines,
+  toWorkspaceUri,
+} from './utils/workspace-util';
+
+/**
+ * A navigation target: a range of a comment
+ */
+interface NavigationItem {
+  /** Identifies the range among all items */
+  key: string;
+  entry: CsvEntry;
+  filePath: string;
+  range: Range;
+}
+
+/**
+ * Jump between the commented ranges of all files
+ */
+export class CommentNavigator {
+  /** The range reached by the last navigation */
+  private lastItemKey = '';
+
+  constructor(private commentService: ReviewCommentService, private workspaceRoot: string) {}
+
+  /**
+   * Go to the next comment, wrapping around to the next file with comments
+   */
+  next(): Promise<void> {
+    return this.navigate(1);
+  }
+
+  /**
+   * Go to the previous comment, wrapping around to the previous file with comments
+   */
+  previous(): Promise<void> {
+    return this.navigate(-1);
+  }
+
+  /**
+   * Go to a comment relative to the current position
+   *
+   * @param direction 1 for the next comment, -1 for the previous one
+   */
+  private async navigate(direction: 1 | -1): Promise<void> {
+    const items = this.getNavigationItems(await this.commentService.getComments());
+    if (!items.length) {
+      window.showInformationMessage('No review comments found.');
+      return;
+    }
+
+    const index = this.getTargetIndex(items, direction);
+    const target = items[(index + items.length) % items.length];
+    this.lastItemKey = target.key;
+
+    const openEditPanel = workspace.getConfiguration().get('code-review.openEditPanelOnNavigation') as boolean;
+    if (openEditPanel) {
+      const fileSection: ReviewFileExportSection = { group: target.entry.filename, lines: [target.entry] };
+      commands.executeCommand('codeReview.openSelection', fileSection, target.entry);
+      return;
+    }
+
+    try {
+      const editor = await window.showTextDocument(toWorkspaceUri(target.filePath), { viewColumn: ViewColumn.One });
+      editor.selection = new Selection(target.range.start, target.range.start);
+      editor.revealRange(target.range, TextEditorRevealType.InCenterIfOutsideViewport);
+    } catch (error) {
+      window.showErrorMessage(`Cannot not open file: '${target.filePath}': File does not exist.`);
+      console.log('Cannot open file', target.filePath, error);
+    }
+  }
+
+  /**
+   * Get all the ranges of the comments, ordered by file and by position (like in the tree view and in the exports)
+   *
+   * @param entries All comments
+   * @return NavigationItem[]
+   */
+  private getNavigationItems(entries: CsvEntry[]): NavigationItem[] {
+    const sortedEntries = entries
+      .filter((entry) => entry.filename)
+      .map((entry) => ({ entry, filePath: resolveWorkspacePath(this.workspaceRoot, entry.filename) }))
+      .sort((a, b) => a.filePath.localeCompare(b.filePath) || sortCsvEntryForLines(a.entry, b.entry));
+
+    const items: NavigationItem[] = [];
+    for (const { entry, filePath } of sortedEntries) {
+      rangesFromStringDefinition(entry.lines)
+        .map((range, index) => ({ key: `${entry.id}:${index}`, entry, filePath, range }))
+        .sort((a, b) => a.range.start.line - b.range.start.line)
+        .forEach((item) => items.push(item));
+    }
+
+    return items;
+  }
+
+  /**
+   * Get the index of the item to navigate to (may be out of the bounds of the list)
+   *
+   * @param items The ordered navigation items
+   * @param direction 1 for the next comment, -1 for the previous one
+   * @return number
+   */
+  private getTargetIndex(items: NavigationItem[], direction: 1 | -1): number {
+    const lastIndex = items.findIndex((item) => item.key === this.lastItemKey);
+    const editor = window.activeTextEditor;
+    if (!editor) {
+      // e.g. the edit panel has the focus: continue from the last reached comment
+      if (lastIndex > -1) {
+        return lastIndex + direction;
+      }
+      return direction > 0 ? 0 : -1;
+    }
+
+    const filePath = editor.document.uri.fsPath;
+    const line = editor.selection.active.line;
+
+    // continue from the last reached comment if the cursor didn't move
+    if (lastIndex > -1 && items[lastIndex].filePath === filePath && items[lastIndex].range.start.line === line) {
+      return lastIndex + direction;
+    }
+
+    // compare the position of each item with the cursor position
+    const compare = (item: NavigationItem) => item.filePath.localeCompare(filePath) || item.range.start.line - line;
+    if (direction > 0) {
+      const nextIndex = items.findIndex((item) => compare(item) > 0);
+      return nextIndex > -1 ? nextIndex : 0;
+    }
+
+    // the last item before the cursor, or -1 to wrap around to the last item
+    return items.map(compare).reduce((acc, cur, index) => (cur < 0 ? index : acc), -1);
+  }
+}
@@ -0,0 +1,96 @@
+import { commands, QuickPickItem, window } from 'vscode';
+
+import { ReviewCommentService } from './review-comment';
+import { CsvEntry, getStatusLabel } from './model';
+import { ReviewFileExportSection } from './interfaces';
+import { getPriorityName } from './utils/priority-utils';
+import { matchesSearchQuery, parseSearchQuery } from './utils/search-utils';
+import { StaleCommentDetector } from './comment-staleness';
+
+/**
+ * A comment listed in the search
+ */
+interface CommentQuickPickItem extends QuickPickItem {
+  entry: CsvEntry;
+}
+
+/**
+ * Search across all review comments
+ */
+export class CommentSearch {
+  constructor(private commentService: ReviewCommentService, private staleDetector: StaleCommentDetector) {}
+
+  /**
+   * Show the search and open the chosen comment
+   */
+  async show(): Promise<void> {
+    const entries = await this.commentService.getComments();
+    this.showQuickPick(entries, 'Search review comments (filter with cat:<category> prio:<priority> file:<path>)');
+  }
+
+  /**
+   * List the comments whose code changed since the review, to verify them again
+   */
+  async showStale(): Promise<void> {
+    const entries = (await this.commentService.getComments()).filter((entry) => this.staleDetector.isStale(entry));
+    if (!entries.length) {
+      window.showInformationMessage('No comment on code changed since the review found.');
+      return;
+    }
+
+    this.showQuickPick(entries, `${entries.length} comments on code changed since the review`);
+  }
+
+  /**
+   * Show the searchable list of some comments and open the chosen one
+   *
+   * @param entries The listed comments
+   * @param placeholder The placeholder of the search input
+   */
+  private showQuickPick(entries: CsvEntry[], placeholder: string) {
+    const items = entries.map((entry) => this.buildItem(entry));
+
+    const quickPick = window.createQuickPick<CommentQuickPickItem>();
+    quickPick.placeholder = placeholder;
+    quickPick.items = items;
+
+    quickPick.onDidChangeValue((value) => {
+      const query = parseSearchQuery(value);
+      quickPick.items = items.filter((item) =>
+        matchesSearchQuery(item.entry, query, getPriorityName(Number(item.entry.priority) || 0)),
+      );
+    });
+    quickPick.onDidAccept(() => {
+      const [item] = quickPick.selectedItems;
+      quickPick.hide();
+      if (item) {
+        const fileSection: ReviewFileExportSection = { group: item.entry.filename, lines: [item.entry] };
+        commands.executeCommand('codeReview.openSelection', fileSection, item.entry);
+      }
+    });
+    quickPick.onDidHide(() => quickPick.dispose());
+    quickPick.show();
+  }
+
+  /**
+   * Build the item representing a comment
+   *
+   * @param entry The comment
+   * @return CommentQuickPickItem
+   */
+  private buildItem(entry: CsvEntry): CommentQuickPickItem {
+    const details = [getPriorityName(Number(entry.priority) || 0), getStatusLabel(entry.status)];
+    if (entry.category) {
+      details.unshift(entry.category);
+    }
+
+    return {
+      label: entry.title || entry.comment.split('\n')[0],
+      description: entry.lines ? `${entry.filename}:${entry.lines}` : entry.filename || 'General Notes',
+      detail: details.join(' | '),
+      // the items are filtered by the search query, not by the quick pick
+      alwaysShow: true,
+      entry,
+    };
+  }
+}
@@ -0,0 +1,108 @@
+import { Event, EventEmitter } from 'vscode';
+
+import { CommentScope, CsvEntry, getCommentScope } from './model';
+import { getGitRepositoryPathOfFile, rangesFromStringDefinition, resolveWorkspacePath } from './utils/workspace-util';
+import { DiffHunk, getGitDiff, getGitHead, isCommitSha, isLineRangeChanged, parseDiffHunks } from './utils/git-utils';
+
+/**
+ * Detect the comments whose code changed since the commit they were written against
+ * (computed once per change of the comments or of HEAD, see `refresh()`, as the views check every shown comment)
+ */
+export class StaleCommentDetector {
+  private _onDidChange: EventEmitter<void> = new EventEmitter<void>();
+  /** Fired when the stale comments changed */
+  readonly onDidChange: Event<void> = this._onDidChange.event;
+
+  /** The stale flags of the comments by id */
+  private staleComments = new Map<string, boolean>();
+  /** Changes of a file between a commit and HEAD by `<HEAD>:<sha>:<file>` */
+  private hunksCache = new Map<string, DiffHunk[]>();
+  /** Number of the last refresh, the results of the previous ones are ignored */
+  private generation = 0;
+
+  constructor(private workspaceRoot: string) {}
+
+  /**
+   * Check if the code of a comment changed between its commit and HEAD
+   *
+   * @param entry The comment to check
+   * @return boolean false when the comment has no commit, the changes cannot be computed or were not computed yet
+   */
+  isStale(entry: CsvEntry): boolean {
+    return this.staleComments.get(entry.id) ?? false;
+  }
+
+  /**
+   * Compute which comments are stale (e.g. when the comments or HEAD changed)
+   *
+   * @param entries All comments
+   */
+  async refresh(entries: CsvEntry[]) {
+    const generation = ++this.generation;
+    const heads = new Map<string, Promise<string>>();
+    const hunksCache = new Map<string, DiffHunk[]>();
+    const staleComments = new Map<string, boolean>();
+    for (const entry of entries) {
+      staleComments.set(entry.id, await this.computeStale(entry, heads, hunksCache));
+    }
+
+    if (generation !== this.generation) {
+      return;
+    }
+
+    // only the changes since the current HEAD commits are kept
+    this.hunksCache = hunksCache;
+    const changed =
+      staleComments.size !== this.staleComments.size ||
+      [...staleComments].some(([id, stale]) => this.staleComments.get(id) !== stale);
+    this.staleComments = staleComments;
+    if (changed) {
+      this._onDidChange.fire();
+    }
+  }
+
+  /**
+   * Check if the code of a comment changed between its commit and HEAD
+   *
+   * @param entry The comment to check
+   * @param heads The HEAD commits by git repository
+   * @param hunksCache The changes computed by the current refresh
+   * @return Promise<boolean>
+   */
+  private async computeStale(
+    entry: CsvEntry,
+    heads: Map<string, Promise<string>>,
+    hunksCache: Map<string, DiffHunk[]>,
+  ): Promise<boolean> {
+    if (!isCommitSha(entry.sha) || getCommentScope(entry) === CommentScope.project) {
+      return false;
+    }
+
+    // the files of the workspace folders may belong to different repositories
+    const pathToFile = resolveWorkspacePath(this.workspaceRoot, entry.filename);
+    const gitRepositoryPath = getGitRepositoryPathOfFile(this.workspaceRoot, pathToFile);
+    if (!heads.has(gitRepositoryPath)) {
+      heads.set(gitRepositoryPath, getGitHead(gitRepositoryPath));
+    }
+    const head = await heads.get(gitRepositoryPath)!;
+    if (!head || entry.sha === head) {
+      return false;
+    }
+
+    const key = `${head}:${entry.sha}:${pathToFile}`;
+    let hunks = hunksCache.get(key) ?? this.hunksCache.get(key);
+    if (!hunks) {
+      hunks = parseDiffHunks((await getGitDiff(gitRepositoryPath, entry.sha, pathToFile)) ?? '');
+    }
+    hunksCache.set(key, hunks);
+
+    if (getCommentScope(entry) === CommentScope.file) {
+      return hunks.length > 0;
+    }
+
+    // the hunks are related to the lines at the commit of the comment, not to the relocated ones
+    return rangesFromStringDefinition(entry.reviewedLines || entry.lines).some((range) =>
+      isLineRangeChanged(hunks!, range.start.line + 1, range.end.line + 1),
+    );
+  }
+}
@@ -0,0 +1,423 @@
+import { Uri } from 'vscode';
+
+import { CsvEntry, CsvStructure, isOrphaned } from './model';
+import { detectLineBreak } from './utils/csv-utils';
+import { getFileModificationTime, hashContent, readFileContent, writeFileContent } from './utils/fs-utils';
+import { parseCsvEntries } from './utils/storage-utils';
+
+/**
+ * The formats the comments can be stored in (see `code-review.storage`)
+ */
+export enum StorageFormat {
+  /** One comment per CSV row */
+  csv = 'csv',
+  /** One comment per line as JSON object */
+  jsonl = 'jsonl',
+}
+
+export const storageFormatLabels: { [format in StorageFormat]: string } = {
+  [StorageFormat.csv]: 'CSV',
+  [StorageFormat.jsonl]: 'JSON lines',
+};
+
+/**
+ * Storage of the comments of a review file
+ */
+export interface CommentStore {
+  /** The URI of the review file */
+  readonly uri: Uri;
+  /**
+   * Create an empty review file
+   * @return Promise<boolean> true if the file was created, false otherwise
+   */
+  create(): Promise<boolean>;
+  /**
+   * Read all stored comments
+   * @return Promise<CsvEntry[]> The comments, or an empty list if the file cannot be read
+   */
+  load(): Promise<CsvEntry[]>;
+  /**
+   * Store a new comment
+   * @param comment The comment to store
+   * @return Promise<boolean> true if the comment was stored, false otherwise
+   */
+  add(comment: CsvEntry): Promise<boolean>;
+  /**
+   * Replace the stored comments having the same ids (the other comments are ignored)
+   * @param comments The modified comments
+   * @param bases The comments as read when their modification started, a stored comment differing from its base is a conflict
+   * (by default, the comments as last read by the store)
+   * @return Promise<boolean> true if all comments were found and stored, false otherwise
+   */
+  update(comments: CsvEntry[], bases?: CsvEntry[]): Promise<boolean>;
+  /**
+   * Remove a stored comment
+   * @param id The identifier of the comment
+   * @param base The comment as read when its deletion started, a stored comment differing from it is a conflict
+   * (by default, the comment as last read by the store)
+   * @return Promise<boolean> true if the comment was found and removed, false otherwise
+   */
+  delete(id: string, base?: CsvEntry): Promise<boolean>;
+  /**
+   * Replace all stored comments
+   * @param comments The comments to store
+   * @return Promise<boolean> true if the comments were stored, false otherwise
+   */
+  save(comments: CsvEntry[]): Promise<boolean>;
+  /**
+   * Get the content of a review file storing some comments (the review file is not modified)
+   * @param comments The comments to store
+   * @param lineBreak The line break of the review file
+   * @return string
+   */
+  format(comments: CsvEntry[], lineBreak: string): string;
+}
+
+/**
+ * A modification of the review file, made outside of the store since it was last read, conflicting with a change of the store
+ */
+export interface StoreConflict {
+  /** The URI of the review file */
+  uri: Uri;
+  /** Description of the conflicting modifications */
+  message: string;
+  /** The content of the review file if the modifications are overwritten */
+  content: string;
+}
+
+/**
+ * How to resolve a conflict with the modifications made outside of the store
+ */
+export enum ConflictResolution {
+  /** Store the changes over the modifications */
+  overwrite = 'overwrite',
+  /** Keep the modifications, the conflicting changes are discarded */
+  discard = 'discard',
+}
+
+/**
+ * Choose how to resolve a conflict (e.g. by asking the user)
+ */
+export type ConflictHandler = (conflict: StoreConflict) => Promise<ConflictResolution>;
+
+/**
+ * The review file as read by a store
+ */
+interface ReviewFileState {
+  /** The content, undefined if the file does not exist */
+  content?: string;
+  /** The modification time, 0 if the file does not exist */
+  mtime: number;
+  /** The comments, undefined if the file does not exist or is invalid */
+  comments?: CsvEntry[];
+}
+
+/**
+ * Store the comments in a text file with one line per comment
+ *
+ * The changes are merged with the modifications made outside of the store (by hand or by another window):
+ * the content of the file when it was last read (or the comments when their modification started) is compared with its current content.
+ * A change of a comment modified meanwhile is a conflict, resolved by the conflict handler.
+ */
+abstract class LineCommentStore implements CommentStore {
+  /** Number of times a change is computed again when the file is modified while it is written */
+  private static readonly maxWriteAttempts = 3;
+
+  /** The review file when it was last read or written: its hash and the lines of the comments by id */
+  private snapshot?: { hash: string; lines: Map<string, string> };
+
+  constructor(readonly uri: Uri, private resolveConflict: ConflictHandler = overwriteConflicts) {}
+
+  /**
+   * Get the first line(s) of the review file
+   * @param lineBreak The line break of the review file
+   */
+  protected abstract formatHeader(lineBreak: string): string;
+
+  /**
+   * Convert a comment to a line of the review file
+   * @param comment The comment to convert
+   */
+  protected abstract formatComment(comment: CsvEntry): string;
+
+  /**
+   * Read the comments from the content of the review file
+   * @param content The content of the review file
+   * @return CsvEntry[] | undefined The comments, or undefined if the content is invalid
+   */
+  protected abstract parseComments(content: string): CsvEntry[] | undefined;
+
+  create(): Promise<boolean> {
+    return this.write(async () => this.formatHeader(detectLineBreak('')));
+  }
+
+  async load(): Promise<CsvEntry[]> {
+    const state = await this.read();
+    if (state.content !== undefined && state.comments) {
+      this.remember(state.content, state.comments);
+    }
+    return state.comments ?? [];
+  }
+
+  add(comment: CsvEntry): Promise<boolean> {
+    // a new comment cannot conflict with the modifications
+    return this.write(async ({ content: previousContent }) => {
+      // the file systems of virtual workspaces cannot append content
+      const lineBreak = detectLineBreak(previousContent ?? '');
+      const content = previousContent ?? this.formatHeader(lineBreak);
+      const separator = content && !content.endsWith('\n') ? lineBreak : '';
+      return `${content}${separator}${this.formatComment(comment)}${lineBreak}`;
+    });
+  }
+
+  async update(comments: CsvEntry[], bases: CsvEntry[] = []): Promise<boolean> {
+    let found = 0;
+    const written = await this.write(async (state) => {
+      if (!state.comments) {
+        return undefined;
+      }
+
+      const modified = this.getModifiedComments(state, bases);
+      const conflicts = comments.filter((comment) => modified.has(comment.id));
+      let changes = comments;
+      if (conflicts.length) {
+        const titles = conflicts.map((comment) => `'${comment.title}'`).join(', ');
+        const resolution = await this.resolveConflict({
+          uri: this.uri,
+          message: `The comments ${titles} were modified in '${this.uri.fsPath}' since they were read.`,
+          content: this.format(this.replace(state.comments, changes).entries, detectLineBreak(state.content!)),
+        });
+        if (resolution === ConflictResolution.discard) {
+          changes = comments.filter((comment) => !modified.has(comment.id));
+        }
+      }
+
+      const result = this.replace(state.comments, changes);
+      found = result.found;
+      return found ? this.format(result.entries, detectLineBreak(state.content!)) : undefined;
+    });
+
+    return written && found === comments.length;
+  }
+
+  delete(id: string, base?: CsvEntry): Promise<boolean> {
+    return this.write(async (state) => {
+      const stored = state.comments?.find((entry) => entry.id === id);
+      if (!stored) {
+        return undefined;
+      }
+
+      const content = this.format(
+        state.comments!.filter((entry) => entry.id !== id),
+        detectLineBreak(state.content!),
+      );
+      if (this.getModifiedComments(state, base ? [base] : []).has(id)) {
+        const resolution = await this.resolveConflict({
+          uri: this.uri,
+          message: `The deleted comment '${stored.title}' was modified in '${this.uri.fsPath}' since it was read.`,
+          content,
+        });
+        if (resolution === ConflictResolution.discard) {
+          return undefined;
+        }
+      }
+
+      return content;
+    });
+  }
+
+  save(comments: CsvEntry[]): Promise<boolean> {
+    return this.write(async (state) => {
+      // keep the line breaks of an existing file, so that only the modified lines are changed
+      const content = this.format(comments, detectLineBreak(state.content ?? ''));
+      if (this.snapshot && state.content !== undefined && hashContent(state.content) !== this.snapshot.hash) {
+        const resolution = await this.resolveConflict({
+          uri: this.uri,
+          message: `The review file '${this.uri.fsPath}' was modified since it was read.`,
+          content,
+        });
+        if (resolution === ConflictResolution.discard) {
+          return undefined;
+        }
+      }
+
+      return content;
+    });
+  }
+
+  format(comments: CsvEntry[], lineBreak: string): string {
+    // The last line of the file must always be terminated with a line break
+    const lines = comments.map((comment) => `${this.formatComment(comment)}${lineBreak}`);
+    return this.formatHeader(lineBreak) + lines.join('');
+  }
+
+  /**
+   * Read the review file
+   * @return Promise<ReviewFileState>
+   */
+  private async read(): Promise<ReviewFileState> {
+    // the modification time is read first: a later modification is detected when writing
+    const mtime = await getFileModificationTime(this.uri);
+    const content = await readFileContent(this.uri);
+    return { content, mtime, comments: content === undefined ? undefined : this.parseComments(content) };
+  }
+
+  /**
+   * Write a change of the review file
+   * @param change Compute the new content from the current state of the file, undefined to leave the file unchanged
+   * @return Promise<boolean> true if the content was written, false otherwise
+   */
+  private async write(change: (state: ReviewFileState) => Promise<string | undefined>): Promise<boolean> {
+    for (let attempt = 0; attempt < LineCommentStore.maxWriteAttempts; attempt++) {
+      const state = await this.read();
+      const content = await change(state);
+      if (content === undefined) {
+        return false;
+      }
+
+      // the file was written by someone else in the meantime: the change is computed again from the new content
+      if ((await getFileModificationTime(this.uri)) !== state.mtime) {
+        continue;
+      }
+
+      if (!(await writeFileContent(this.uri, content))) {
+        return false;
+      }
+      this.remember(content, this.parseComments(content) ?? []);
+      return true;
+    }
+
+    console.log('Error writing comments: the file is modified concurrently', this.uri.toString());
+    return false;
+  }
+
+  /**
+   * Remember the content of the review file, to detect its modifications made outside of the store
+   * @param content The content of the review file
+   * @param comments The comments of the review file
+   */
+  private remember(content: string, comments: CsvEntry[]) {
+    this.snapshot = {
+      hash: hashContent(content),
+      lines: new Map(comments.map((comment) => [comment.id, this.formatComment(comment)])),
+    };
+  }
+
+  /**
+   * Get the comments modified (or added) outside of the store since the review file was last read
+   * @param state The current state of the review file
+   * @param bases The comments as read when their modification started, compared instead of the last read ones
+   * @return Set<string> The ids of the modified comments
+   */
+  private getModifiedComments(state: ReviewFileState, bases: CsvEntry[] = []): Set<string> {
+    const snapshot = this.snapshot;
+    // the review file is read again before every change (e.g. to refresh the views): the snapshot may be more recent
+    const lines = new Map(bases.map((base) => [base.id, this.formatComment(base)]));
+    const changed = !!snapshot && state.content !== undefined && hashContent(state.content) !== snapshot.hash;
+
+    const modified = (state.comments ?? []).filter((comment) => {
+      if (lines.has(comment.id)) {
+        return lines.get(comment.id) !== this.formatComment(comment);
+      }
+      return changed && snapshot!.lines.get(comment.id) !== this.formatComment(comment);
+    });
+    return new Set(modified.map((comment) => comment.id));
+  }
+
+  /**
+   * Replace stored comments by the modified ones having the same ids
+   * @param entries The stored comments
+   * @param comments The modified comments
+   * @return The comments, and the number of replaced comments
+   */
+  private replace(entries: CsvEntry[], comments: CsvEntry[]): { entries: CsvEntry[]; found: number } {
+    let found = 0;
+    const replaced = entries.map((entry) => {
+      const comment = comments.find((candidate) => candidate.id === entry.id);
+      found += comment ? 1 : 0;
+      return comment ?? entry;
+    });
+    return { entries: replaced, found };
+  }
+}
+
+/**
+ * Resolve the conflicts by overwriting the modifications
+ */
+const overwriteConflicts: ConflictHandler = async () => ConflictResolution.overwrite;
+
+/**
+ * Store the comments as CSV file (see `CsvStructure`)
+ */
+export class CsvCommentStore extends LineCommentStore {
+  protected formatHeader(lineBreak: string): string {
+    return `${CsvStructure.versionLine}${lineBreak}${CsvStructure.headerLine}${lineBreak}`;
+  }
+
+  protected formatComment(comment: CsvEntry): string {
+    return CsvStructure.formatAsCsvLine({ ...comment, orphaned: isOrphaned(comment) });
+  }
+
+  protected parseComments(content: string): CsvEntry[] | undefined {
+    return parseCsvEntries(content);
+  }
+}
+
+/**
+ * Store the comments as JSON lines: as every comment is stored on its own line,
+ * concurrent changes of the review file can be merged by git
+ */
+export class JsonLinesCommentStore extends LineCommentStore {
+  protected formatHeader(): string {
+    return '';
+  }
+
+  protected formatComment(comment: CsvEntry): string {
+    const dict: { [property: string]: unknown } = { ...comment, orphaned: isOrphaned(comment) };
+    const record: { [column: string]: string } = {};
+    // same properties, order and values as the columns of the CSV file
+    CsvStructure.columns.forEach((column) => (record[column] = String(dict[column] ?? '')));
+    return JSON.stringify(record);
+  }
+
+  protected parseComments(content: string): CsvEntry[] | undefined {
+    try {
+      return content
+        .split(/\r?\n/)
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line) as CsvEntry);
+    } catch (error) {
+      console.log('Error reading comments from file', this.uri.toString(), error);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Get the extension of the review files of a storage format
+ *
+ * @param format The storage format
+ * @return string e.g. `.csv`
+ */
+export const getStorageFileExtension = (format: StorageFormat): string => `.${format}`;
+
+/**
+ * Create the store of a review file
+ *
+ * @param format The storage format of the review file
+ * @param uri The URI of the review file
+ * @param resolveConflict Choose how to resolve the conflicts with the modifications made outside of the store (overwritten by default)
+ * @return CommentStore
+ */
+export const createCommentStore = (
+  format: StorageFormat,
+  uri: Uri,
+  resolveConflict?: ConflictHandler,
+): CommentStore => {
+  switch (format) {
+    case StorageFormat.jsonl:
+      return new JsonLinesCommentStore(uri, resolveConflict);
+    default:
+      return new CsvCommentStore(uri, resolveConflict);
+  }
+};
@@ -1,14 +1,25 @@
-import { ExtensionContext, TreeDataProvider, TreeItem, window, EventEmitter, Event } from 'vscode';
+import { ExtensionContext, TreeDataProvider, TreeItem, window, EventEmitter, Event, commands } from 'vscode';
 
 import { CommentListEntry } from './comment-list-entry';
 import { ExportFactory } from './export-factory';
+import { BranchReview } from './branch-review';
+import { ExplorerGroupBy, Group } from './interfaces';
+import { CommentFilter, createEmptyFilter, describeFilter, isFilterActive } from './utils/filter-utils';
+import { getPriorityName } from './utils/priority-utils';
 
 export class CommentView {
   constructor(private commentProvider: CommentsProvider) {
-    window.createTreeView('code-review.list', {
+    const treeView = window.createTreeView('code-review.list', {
       treeDataProvider: this.commentProvider,
       showCollapseAll: true,
     });
+
+    // show the active filter next to the title of the view
+    this.commentProvider.onDidChangeFilter((filter) => {
+      const active = isFilterActive(filter);
+      treeView.description = active ? `Filtered: ${describeFilter(filter, getPriorityName)}` : undefined;
+      commands.executeCommand('setContext', 'codeReview.filterActive', active);
+    });
   }
 }
 
@@ -17,8 +28,48 @@ export class CommentsProvider implements TreeDataProvider<CommentListEntry> {
     CommentListEntry | undefined
   >();
   readonly onDidChangeTreeData: Event<CommentListEntry | undefined> = this._onDidChangeTreeData.event;
+  private _onDidChangeFilter: EventEmitter<CommentFilter> = new EventEmitter<CommentFilter>();
+  readonly onDidChangeFilter: Event<CommentFilter> = this._onDidChangeFilter.event;
+
+  /** The filter of the shown comments */
+  private _filter: CommentFilter = createEmptyFilter();
+
+  constructor(
+    private context: ExtensionContext,
+    private exportFactory: ExportFactory,
+    private branchReview: BranchReview,
+  ) {}
+
+  get filter(): CommentFilter {
+    return this._filter;
+  }
 
-  constructor(private context: ExtensionContext, private exportFactory: ExportFactory) {}
+  /**
+   * Change the filter of the comments and rebuild the tree
+   *
+   * @param filter The new filter (an empty filter shows all comments)
+   */
+  setFilter(filter: CommentFilter): void {
+    this._filter = filter;
+    this._onDidChangeFilter.fire(filter);
+    this.refresh();
+  }
+
+  /**
+   * The grouping of the comments, persisted per workspace
+   */
+  get groupBy(): ExplorerGroupBy {
+    return this.context.workspaceState.get<ExplorerGroupBy>('code-review.explorerGroupBy', Group.filename);
+  }
+
+  /**
+   * Change the grouping of the comments and rebuild the tree
+   *
+   * @param groupBy The new grouping
+   */
+  setGroupBy(groupBy: ExplorerGroupBy): Thenable<void> {
+    return this.context.workspaceState.update('code-review.explorerGroupBy', groupBy).then(() => this.refresh());
+  }
 
   refresh(entry?: CommentListEntry): void {
     this._onDidChangeTreeData.fire(entry);
@@ -31,9 +82,22 @@ export class CommentsProvider implements TreeDataProvider<CommentListEntry> {
   getChildren(element?: CommentListEntry): Thenable<CommentListEntry[]> {
     // if no element, the first item level starts
     if (!element) {
-      return this.exportFactory.getFilesContainingComments();
+      return Promise.all([
+        this.exportFactory.getFilesContainingComments(this.groupBy, this.filter),
+        this.exportFactory.getTrashEntries(),
+      ]).then(([entries, trash]) => [...this.branchReview.getRootEntries(), ...entries, ...trash]);
+    } else if (element.contextValue === 'branchReview') {
+      return this.branchReview.getFileEntries();
+    } else if (element.contextValue === 'trash') {
+      return this.exportFactory.getDeletedComments(element);
+    } else if (element.contextValue === 'comment') {
+      return this.exportFactory.getReplies(element);
+    } else if (element.contextValue === 'workspaceFolder') {
+      return this.exportFactory.getWorkspaceFolderContent(element, this.groupBy);
+    } else if (element.contextValue === 'folder') {
+      return this.exportFactory.getFolderContent(element);
     } else {
-      return this.exportFactory.getComments(element);
+      return this.exportFactory.getComments(element, this.filter);
     }
   }
 }
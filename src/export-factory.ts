@@ -1,9 +1,16 @@
-import * as fs from 'fs';
 import * as path from 'path';
 const Handlebars = require('handlebars');
 const stripIndent = require('strip-indent');
-import { workspace, Uri, window, ViewColumn, TreeItemCollapsibleState, ExtensionContext } from 'vscode';
-const parseFile = require('@fast-csv/parse').parseFile;
+import {
+  workspace,
+  Uri,
+  window,
+  ViewColumn,
+  TreeItemCollapsibleState,
+  ExtensionContext,
+  ThemeIcon,
+  WorkspaceFolder,
+} from 'vscode';
 import { EOL } from 'os';
 import { encode, decode } from 'js-base64';
 
@@ -13,18 +20,43 @@ import {
   sortCsvEntryForLines,
   sortLineSelections,
   rangeFromStringDefinition,
-  unescapeEndOfLineFromCsv,
-  escapeEndOfLineForCsv,
+  removeLeadingSlash,
+  resolveWorkspacePath,
+  getWorkspaceFolderOfFile,
+  toWorkspaceUri,
 } from './utils/workspace-util';
-import { ReviewFileExportSection, GroupBy, ExportFormat, ExportMap, Group } from './interfaces';
-import { CsvEntry } from './model';
+import { readFileContent, writeFileContent } from './utils/fs-utils';
+import { formatCsvRow } from './utils/csv-utils';
+import {
+  ReviewFileExportSection,
+  GroupBy,
+  ExportFormat,
+  ExportMap,
+  ExportOutput,
+  Group,
+  ExplorerGroupBy,
+} from './interfaces';
+import {
+  CommentReply,
+  CommentScope,
+  CommentStatus,
+  CsvEntry,
+  getCommentScope,
+  getStatusLabel,
+  isOrphaned,
+  parseReplies,
+} from './model';
 import { CommentListEntry } from './comment-list-entry';
 import { FileGenerator } from './file-generator';
+import { getPriorityIconName, getPriorityName } from './utils/priority-utils';
+import { CommentFilter, matchesCommentFilter } from './utils/filter-utils';
+import { StaleCommentDetector } from './comment-staleness';
+import { BranchReview } from './branch-review';
 
 export class ExportFactory {
-  private defaultFileName = 'code-review';
   private groupBy: GroupBy;
   private includeCodeSelection = false;
+  private omitResolvedFormats: ExportFormat[] = [];
 
   private exportHandlerMap = new Map<ExportFormat, ExportMap>([
     [
@@ -32,22 +64,28 @@ export class ExportFactory {
       {
         fileExtension: 'html',
         storeOutside: true,
-        writeFileHeader: (_outputFile: string) => {
+        writeFileHeader: (_output: ExportOutput) => {
           return;
         },
-        handleData: (_outputFile: string, row: CsvEntry): CsvEntry => {
-          row.code = this.includeCodeSelection ? this.getCodeForFile(row.filename, row.lines) : '';
+        handleData: (_output: ExportOutput, row: CsvEntry): CsvEntry => {
+          row.code = row.code ?? '';
           return row;
         },
-        handleEnd: (outputFile: string, rows: CsvEntry[], template: Uri) => {
+        handleEnd: async (output: ExportOutput, rows: CsvEntry[], template?: Uri) => {
           // check template
-          const templateData = fs.readFileSync(template.fsPath, 'utf8');
+          const templateData = template ? await readFileContent(template) : undefined;
           if (!templateData) {
-            window.showErrorMessage(`Error when reading the template file: '${template.fsPath}'`);
+            window.showErrorMessage(`Error when reading the template file: '${template?.fsPath}'`);
+            return;
           }
+          // the comments on the whole project get their own section
+          const projectComments = rows.filter((row) => getCommentScope(row) === CommentScope.project);
           // check if grouping should be applied
           let reviewExportData: ReviewFileExportSection[] = [];
-          reviewExportData = this.groupResults(rows, this.groupBy);
+          reviewExportData = this.groupResults(
+            rows.filter((row) => getCommentScope(row) !== CommentScope.project),
+            this.groupBy,
+          );
           if (this.groupBy === Group.filename) {
             reviewExportData.forEach((group) => {
               group.lines.sort(sortCsvEntryForLines);
@@ -56,13 +94,20 @@ export class ExportFactory {
 
           // Helper that decodes the Base64 content to be displayed in the handlebar
           Handlebars.registerHelper('codeBlock', (code: string) => decode(code));
+          // Helper that displays the human readable label of a comment state
+          Handlebars.registerHelper('statusLabel', (status: string) => getStatusLabel(status));
+          // Helper that decodes the replies of a comment
+          Handlebars.registerHelper('replies', (replies: string) => parseReplies(replies));
           // compile template after helper is registered
           const templateCompiled = Handlebars.compile(templateData);
           // inject date into the template
-          const htmlOut = templateCompiled(reviewExportData);
-          fs.writeFileSync(outputFile, htmlOut);
-          window.showInformationMessage(`Code review file: '${outputFile}' successfully created.`);
-          this.showPreview(outputFile);
+          // the review coverage of the changed files, if a branch review was started
+          const coverage = this.branchReview.getCoverage(rows);
+          output.content = templateCompiled(reviewExportData, { data: { projectComments, coverage } });
+          if (await this.writeOutput(output)) {
+            window.showInformationMessage(`Code review file: '${output.file}' successfully created.`);
+            this.showPreview(output.content);
+          }
         },
       },
     ],
@@ -71,31 +116,39 @@ export class ExportFactory {
       {
         fileExtension: 'gitlab.csv',
         storeOutside: false,
-        writeFileHeader: (outputFile: string) => {
-          fs.writeFileSync(outputFile, `title,description${EOL}`);
+        writeFileHeader: (output: ExportOutput) => {
+          output.content = `title,description,author,created,updated${EOL}`;
         },
-        handleData: (outputFile: string, row: CsvEntry): CsvEntry => {
-          row.comment = escapeEndOfLineForCsv(row.comment);
-
-          this.includeCodeSelection ? (row.code = this.getCodeForFile(row.filename, row.lines)) : delete row.code;
+        handleData: (output: ExportOutput, row: CsvEntry): CsvEntry => {
           // cut the description (100 chars max) along with '...' at the end
-          const descShort = row.comment.length > 100 ? `${row.comment.substring(0, 100)}...` : row.comment;
+          const descShort = this.shortDescription(row);
           // use the title when provided but max 255 characters (as GitLab supports this length for titles), otherwise use the shortened description
           const title = row.title ? row.title.substring(0, 255) : descShort;
           const fileRow = row.url ? `- file: [${row.filename}](${row.url})${EOL}` : `${row.filename}${EOL}`;
-          const linesRow = `- lines: ${row.lines}${EOL}`;
+          const linesRow = `- lines: ${this.linesLabel(row)}${EOL}`;
+          const staleRow = row.stale ? `- code changed since review${EOL}` : '';
           const shaRow = row.sha ? `- SHA: ${row.sha}${EOL}${EOL}` : '';
           const commentSection = `## Comment${EOL}${row.comment}${EOL}`;
           const additional = row.additional ? `## Additional information${EOL}${row.additional}${EOL}` : '';
-          const priority = row.priority ? `## Priority${EOL}${this.priorityName(row.priority)}${EOL}${EOL}` : '';
+          const priority = row.priority ? `## Priority${EOL}${getPriorityName(row.priority)}${EOL}${EOL}` : '';
           const category = row.category ? `## Category${EOL}${row.category}${EOL}${EOL}` : '';
+          const status = `## Status${EOL}${getStatusLabel(row.status)}${EOL}${EOL}`;
           const code = row.code ? `${EOL}## Source Code${EOL}${EOL}\`\`\`${EOL}${row.code}\`\`\`${EOL}` : '';
-          const description = `${priority}${category}## Affected${EOL}${fileRow}${linesRow}${shaRow}${commentSection}${EOL}${additional}${code}`;
-          fs.appendFileSync(outputFile, `"[code review] ${title}","${description}"${EOL}`);
+          const replies = this.repliesSection(row, '## Replies', (reply) => `- **${reply.author}** (${reply.date}): `);
+          const description = `${priority}${category}${status}## Affected${EOL}${fileRow}${linesRow}${staleRow}${shaRow}${commentSection}${EOL}${additional}${replies}${code}`;
+          output.content += `${formatCsvRow([
+            `[code review] ${title}`,
+            description,
+            row.author,
+            row.created,
+            row.updated,
+          ])}${EOL}`;
           return row;
         },
-        handleEnd: (outputFile: string, _rows: CsvEntry[]) => {
-          window.showInformationMessage(`GitLab importable CSV file: '${outputFile}' successfully created.`);
+        handleEnd: async (output: ExportOutput, _rows: CsvEntry[]) => {
+          if (await this.writeOutput(output)) {
+            window.showInformationMessage(`GitLab importable CSV file: '${output.file}' successfully created.`);
+          }
         },
       },
     ],
@@ -104,34 +157,47 @@ export class ExportFactory {
       {
         fileExtension: 'github.csv',
         storeOutside: false,
-        writeFileHeader: (outputFile: string) => {
-          fs.writeFileSync(outputFile, `title,description,labels,state,assignee${EOL}`);
+        writeFileHeader: (output: ExportOutput) => {
+          output.content = `title,description,labels,state,assignee,author,created,updated${EOL}`;
         },
-        handleData: (outputFile: string, row: CsvEntry): CsvEntry => {
-          row.comment = escapeEndOfLineForCsv(row.comment);
-
-          this.includeCodeSelection ? (row.code = this.getCodeForFile(row.filename, row.lines)) : delete row.code;
+        handleData: (output: ExportOutput, row: CsvEntry): CsvEntry => {
           // cut the description (100 chars max) along with '...' at the end
-          const descShort = row.comment.length > 100 ? `${row.comment.substring(0, 100)}...` : row.comment;
+          const descShort = this.shortDescription(row);
           // use the title when provided but max 255 characters (as GitLab supports this length for titles), otherwise use the shortened description
           const title = row.title ? row.title.substring(0, 255) : descShort;
 
           const fileRow = row.url ? `- file: [${row.filename}](${row.url})${EOL}` : `${row.filename}${EOL}`;
-          const linesRow = `- lines: ${row.lines}${EOL}`;
+          const linesRow = `- lines: ${this.linesLabel(row)}${EOL}`;
+          const staleRow = row.stale ? `- code changed since review${EOL}` : '';
           const shaRow = row.sha ? `- SHA: ${row.sha}${EOL}${EOL}` : '';
           const commentSection = `## Comment${EOL}${row.comment}${EOL}`;
           const additional = row.additional ? `## Additional information${EOL}${row.additional}${EOL}` : '';
-          const priority = row.priority ? `## Priority${EOL}${this.priorityName(row.priority)}${EOL}${EOL}` : '';
+          const priority = row.priority ? `## Priority${EOL}${getPriorityName(row.priority)}${EOL}${EOL}` : '';
           const category = row.category ? `## Category${EOL}${row.category}${EOL}${EOL}` : '';
+          const status = `## Status${EOL}${getStatusLabel(row.status)}${EOL}${EOL}`;
           const code = row.code ? `${EOL}## Source Code${EOL}${EOL}\`\`\`${EOL}${row.code}\`\`\`${EOL}` : '';
+          const replies = this.repliesSection(row, '## Replies', (reply) => `- **${reply.author}** (${reply.date}): `);
+
+          const description = `${priority}${category}${status}## Affected${EOL}${fileRow}${linesRow}${staleRow}${shaRow}${commentSection}${EOL}${additional}${replies}${code}`;
 
-          const description = `${priority}${category}## Affected${EOL}${fileRow}${linesRow}${shaRow}${commentSection}${EOL}${additional}${code}`;
+          const state = this.isClosed(row) ? 'closed' : 'open';
 
-          fs.appendFileSync(outputFile, `"[code review] ${title}","${description}","code-review","open",""${EOL}`);
+          output.content += `${formatCsvRow([
+            `[code review] ${title}`,
+            description,
+            'code-review',
+            state,
+            '',
+            row.author,
+            row.created,
+            row.updated,
+          ])}${EOL}`;
           return row;
         },
-        handleEnd: (outputFile: string, _rows: CsvEntry[]) => {
-          window.showInformationMessage(`GitHub importable CSV file: '${outputFile}' successfully created.`);
+        handleEnd: async (output: ExportOutput, _rows: CsvEntry[]) => {
+          if (await this.writeOutput(output)) {
+            window.showInformationMessage(`GitHub importable CSV file: '${output.file}' successfully created.`);
+          }
         },
       },
     ],
@@ -140,41 +206,51 @@ export class ExportFactory {
       {
         fileExtension: 'jira.csv',
         storeOutside: false,
-        writeFileHeader: (outputFile: string) => {
-          fs.writeFileSync(
-            outputFile,
-            `Summary,Description,Priority,sha,filename,url,lines,title,category,comment,additional${EOL}`,
-          );
+        writeFileHeader: (output: ExportOutput) => {
+          output.content = `Summary,Description,Priority,sha,filename,url,lines,title,category,comment,additional,status,author,created,updated${EOL}`;
         },
-        handleData: (outputFile: string, row: CsvEntry): CsvEntry => {
-          row.comment = escapeEndOfLineForCsv(row.comment);
-
-          this.includeCodeSelection ? (row.code = this.getCodeForFile(row.filename, row.lines)) : delete row.code;
+        handleData: (output: ExportOutput, row: CsvEntry): CsvEntry => {
           // cut the description (100 chars max) along with '...' at the end
-          const descShort = row.comment.length > 100 ? `${row.comment.substring(0, 100)}...` : row.comment;
+          const descShort = this.shortDescription(row);
           // use the title when provided but max 255 characters (as GitLab supports this length for titles), otherwise use the shortened description
           const title = row.title ? row.title.substring(0, 255) : descShort;
 
           const fileRow = row.url ? `* file: [${row.filename}|${row.url}]${EOL}` : `${row.filename}${EOL}`;
-          const linesRow = `* lines: ${row.lines}${EOL}`;
+          const linesRow = `* lines: ${this.linesLabel(row)}${EOL}`;
+          const staleRow = row.stale ? `* code changed since review${EOL}` : '';
           const shaRow = row.sha ? `* SHA: ${row.sha}${EOL}${EOL}` : '';
           const categorySection = `h2. Category${EOL}${row.category}${EOL}${EOL}`;
+          const statusSection = `h2. Status${EOL}${getStatusLabel(row.status)}${EOL}${EOL}`;
           const commentSection = `h2. Comment${EOL}${row.comment}${EOL}`;
           const additional = row.additional ? `h2. Additional information${EOL}${row.additional}${EOL}` : '';
           const code = row.code ? `${EOL}h2. Source Code${EOL}${EOL}{code}${EOL}${row.code}{code}${EOL}` : '';
+          const replies = this.repliesSection(row, 'h2. Replies', (reply) => `* *${reply.author}* (${reply.date}): `);
 
-          const description = `h2. Affected${EOL}${fileRow}${linesRow}${shaRow}${categorySection}${commentSection}${EOL}${additional}${code}`;
+          const description = `h2. Affected${EOL}${fileRow}${linesRow}${staleRow}${shaRow}${categorySection}${statusSection}${commentSection}${EOL}${additional}${replies}${code}`;
 
-          fs.appendFileSync(
-            outputFile,
-            `"[code review] ${title}","${description}","${this.priorityName(row.priority)}","${row.sha}","${
-              row.filename
-            }","${row.url}","${row.lines}","${row.title}","${row.category}","${row.comment}","${row.additional}"${EOL}`,
-          );
+          output.content += `${formatCsvRow([
+            `[code review] ${title}`,
+            description,
+            getPriorityName(row.priority),
+            row.sha,
+            row.filename,
+            row.url,
+            row.lines,
+            row.title,
+            row.category,
+            row.comment,
+            row.additional,
+            getStatusLabel(row.status),
+            row.author,
+            row.created,
+            row.updated,
+          ])}${EOL}`;
           return row;
         },
-        handleEnd: (outputFile: string, _rows: CsvEntry[]) => {
-          window.showInformationMessage(`JIRA importable file: '${outputFile}' successfully created.`);
+        handleEnd: async (output: ExportOutput, _rows: CsvEntry[]) => {
+          if (await this.writeOutput(output)) {
+            window.showInformationMessage(`JIRA importable file: '${output.file}' successfully created.`);
+          }
         },
       },
     ],
@@ -183,16 +259,22 @@ export class ExportFactory {
       {
         fileExtension: 'json',
         storeOutside: true,
-        writeFileHeader: (_outputFile: string) => {
+        writeFileHeader: (_output: ExportOutput) => {
           return;
         },
-        handleData: (_outputFile: string, row: CsvEntry): CsvEntry => {
-          this.includeCodeSelection ? (row.code = this.getCodeForFile(row.filename, row.lines)) : delete row.code;
+        handleData: (_output: ExportOutput, row: CsvEntry): CsvEntry => {
           return row;
         },
-        handleEnd: (outputFile: string, rows: CsvEntry[]) => {
-          fs.writeFileSync(outputFile, JSON.stringify(rows, null, 2));
-          window.showInformationMessage(`GitHub importable CSV file: '${outputFile}' successfully created.`);
+        handleEnd: async (output: ExportOutput, rows: CsvEntry[]) => {
+          const exported = rows.map((row) => ({
+            ...row,
+            scope: getCommentScope(row),
+            replies: parseReplies(row.replies),
+          }));
+          output.content = JSON.stringify(exported, null, 2);
+          if (await this.writeOutput(output)) {
+            window.showInformationMessage(`GitHub importable CSV file: '${output.file}' successfully created.`);
+          }
         },
       },
     ],
@@ -201,140 +283,451 @@ export class ExportFactory {
   /**
    * for trying out: https://stackblitz.com/edit/code-review-template
    */
-  constructor(private context: ExtensionContext, private workspaceRoot: string, private generator: FileGenerator) {
-    const configFileName = workspace.getConfiguration().get('code-review.filename') as string;
-    if (configFileName) {
-      this.defaultFileName = configFileName;
-    }
+  constructor(
+    private context: ExtensionContext,
+    private workspaceRoot: string,
+    private generator: FileGenerator,
+    private staleDetector: StaleCommentDetector,
+    private branchReview: BranchReview,
+  ) {
     let groupByConfig = workspace.getConfiguration().get('code-review.groupBy') as string;
     if (!groupByConfig || groupByConfig === '-') {
       groupByConfig = Group.filename;
     }
     this.groupBy = groupByConfig as GroupBy;
     this.includeCodeSelection = workspace.getConfiguration().get('code-review.reportWithCodeSelection') as boolean;
+    this.omitResolvedFormats =
+      (workspace.getConfiguration().get('code-review.omitResolvedInExport') as ExportFormat[]) ?? [];
   }
 
   get basePath(): string {
-    return toAbsolutePath(this.workspaceRoot, this.defaultFileName);
-  }
-
-  get inputFile(): string {
-    return `${this.basePath}.csv`;
+    return toAbsolutePath(this.workspaceRoot, this.generator.baseFileName);
   }
 
   /**
    * generic export method
    * @param format the format that's exported
    */
-  exportForFormat(format: ExportFormat, template?: Uri) {
+  async exportForFormat(format: ExportFormat, template?: Uri) {
     const exporter = this.exportHandlerMap.get(format);
-    const outputFile = `${this.basePath}.${exporter?.fileExtension}`;
+    if (!exporter) {
+      return;
+    }
+
+    const output: ExportOutput = { file: `${this.basePath}.${exporter.fileExtension}`, content: '' };
     const data: CsvEntry[] = [];
-    exporter?.writeFileHeader(outputFile);
-    parseFile(this.inputFile, { delimiter: ',', ignoreEmpty: true, headers: true })
-      .on('error', this.handleError)
-      .on('data', (row: CsvEntry) => {
-        row.comment = unescapeEndOfLineFromCsv(row.comment);
-
-        if (exporter?.storeOutside) {
-          const tmp = exporter.handleData(outputFile, row);
-          data.push(tmp);
-        }
-        return exporter?.handleData(outputFile, row);
-      })
-      .on('end', (rows: CsvEntry[]) => {
-        return exporter?.handleEnd(outputFile, exporter?.storeOutside ? data : rows, template);
-      });
+    exporter.writeFileHeader(output);
+    const rows = (await this.generator.store.load()).filter(
+      (row) => !this.omitResolvedFormats.includes(format) || row.status !== CommentStatus.resolved,
+    );
+    for (const row of rows) {
+      row.stale = this.staleDetector.isStale(row);
+      // the files are read asynchronously, so the code is available before the row is handled
+      if (this.includeCodeSelection) {
+        row.code = await this.getCodeForFile(row.filename, row.lines);
+      }
+
+      const handledRow = exporter.handleData(output, row);
+      if (exporter.storeOutside) {
+        data.push(handledRow);
+      }
+    }
+
+    await exporter.handleEnd(output, data, template);
   }
 
   /**
    * get the comments as CommentListEntry for VSCode view
    */
-  getComments(commentGroupedInFile: CommentListEntry): Thenable<CommentListEntry[]> {
-    const result = commentGroupedInFile.data.lines.map((entry: CsvEntry) => {
-      entry.comment = unescapeEndOfLineFromCsv(entry.comment);
+  getComments(commentGroupedInFile: CommentListEntry, filter?: CommentFilter): Thenable<CommentListEntry[]> {
+    const lines = commentGroupedInFile.data.lines.filter((entry: CsvEntry) => matchesCommentFilter(entry, filter));
+    const result = lines.map((entry: CsvEntry) => {
+      entry.stale = this.staleDetector.isStale(entry);
 
       const prio = Number(entry.priority);
       const item = new CommentListEntry(
         entry.title,
         entry.comment,
-        entry.comment,
-        TreeItemCollapsibleState.None,
+        this.commentTooltip(entry),
+        parseReplies(entry.replies).length ? TreeItemCollapsibleState.Collapsed : TreeItemCollapsibleState.None,
         commentGroupedInFile.data,
         prio,
+        entry,
       );
       item.contextValue = 'comment';
       item.command = {
         command: 'codeReview.openSelection',
         title: 'Open comment',
-        arguments: [commentGroupedInFile.data, entry],
+        arguments: [{ group: entry.filename, lines: [entry] }, entry],
       };
-      item.iconPath = this.getIcon(prio);
+      // the commented code cannot be found anymore
+      item.iconPath = isOrphaned(entry) ? new ThemeIcon('warning') : this.getIcon(prio);
       return item;
     });
     return Promise.resolve(result);
   }
 
-  private getIcon(prio: number): { light: string; dark: string } {
-    let icon = '';
-    switch (prio) {
-      case 3:
-        icon = 'red.svg';
-        break;
-      case 2:
-        icon = 'yellow.svg';
-        break;
-      case 1:
-        icon = 'green.svg';
-        break;
+  /**
+   * Get the node of the comments deleted from the review file, if there are any
+   */
+  async getTrashEntries(): Promise<CommentListEntry[]> {
+    const deleted = await this.generator.trash.load();
+    if (!deleted.length) {
+      return [];
+    }
+
+    const item = new CommentListEntry(
+      'Deleted comments',
+      `${deleted.length}`,
+      `Comments deleted from '${this.generator.reviewFileName}'`,
+      TreeItemCollapsibleState.Collapsed,
+      { group: '', lines: deleted },
+    );
+    item.contextValue = 'trash';
+    item.iconPath = new ThemeIcon('trash');
+    return [item];
+  }
+
+  /**
+   * Get the deleted comments as CommentListEntry for VSCode view
+   *
+   * @param trash The node of the deleted comments
+   */
+  getDeletedComments(trash: CommentListEntry): Thenable<CommentListEntry[]> {
+    const result = trash.data.lines.map((entry: CsvEntry) => {
+      const item = new CommentListEntry(
+        entry.title,
+        entry.comment,
+        this.commentTooltip(entry),
+        TreeItemCollapsibleState.None,
+        trash.data,
+        Number(entry.priority),
+        entry,
+      );
+      item.contextValue = 'deletedComment';
+      item.iconPath = new ThemeIcon('trash');
+      return item;
+    });
+    return Promise.resolve(result);
+  }
+
+  /**
+   * Get the affected lines of a comment for the exported descriptions
+   *
+   * @param row The comment
+   * @return string
+   */
+  private linesLabel(row: CsvEntry): string {
+    switch (getCommentScope(row)) {
+      case CommentScope.project:
+        return 'whole project';
+      case CommentScope.file:
+        return 'whole file';
       default:
-        icon = 'unset.svg';
-        break;
+        return row.lines;
+    }
+  }
+
+  /**
+   * Build the tooltip of a comment in the VSCode view
+   *
+   * @param entry The comment
+   * @return string
+   */
+  private commentTooltip(entry: CsvEntry): string {
+    const details = [
+      `File: ${entry.filename || '-'}`,
+      `Lines: ${this.linesLabel(entry)}`,
+      `Status: ${getStatusLabel(entry.status)}`,
+    ];
+    if (entry.stale) {
+      details.push(`Code changed since review (${entry.sha.substring(0, 7)})`);
+    }
+    if (isOrphaned(entry)) {
+      details.push('Orphaned: the commented code cannot be found anymore');
+    }
+    if (entry.author) {
+      details.push(`Author: ${entry.author}`);
+    }
+    if (entry.created) {
+      details.push(`Created: ${new Date(entry.created).toLocaleString()}`);
+    }
+    if (entry.updated) {
+      details.push(`Updated: ${new Date(entry.updated).toLocaleString()}`);
     }
-    const iPath = this.context.asAbsolutePath(path.join('dist', icon));
+
+    return `${entry.comment}${EOL}${EOL}${details.join(EOL)}`;
+  }
+
+  /**
+   * get the replies of a comment as CommentListEntry for VSCode view
+   */
+  getReplies(comment: CommentListEntry): Thenable<CommentListEntry[]> {
+    const result = parseReplies(comment.csvEntry?.replies).map((reply) => {
+      const item = new CommentListEntry(
+        reply.author || 'unknown',
+        reply.comment,
+        `${reply.author} (${reply.date})${EOL}${EOL}${reply.comment}`,
+        TreeItemCollapsibleState.None,
+        comment.data,
+      );
+      item.contextValue = 'reply';
+      item.command = comment.command;
+      item.iconPath = new ThemeIcon('comment-discussion');
+      return item;
+    });
+    return Promise.resolve(result);
+  }
+
+  private getIcon(prio: number): { light: string; dark: string } {
+    const iPath = this.context.asAbsolutePath(path.join('dist', getPriorityIconName(prio)));
     return { light: iPath, dark: iPath };
   }
 
-  getFilesContainingComments(): Thenable<CommentListEntry[]> {
-    if (!fs.existsSync(this.inputFile) || !this.generator.check()) {
-      return Promise.resolve([]);
+  /**
+   * get the groups of comments as CommentListEntry for VSCode view
+   * @param groupBy the grouping of the comments
+   * @param filter the filter of the shown comments
+   */
+  async getFilesContainingComments(
+    groupBy: ExplorerGroupBy = Group.filename,
+    filter?: CommentFilter,
+  ): Promise<CommentListEntry[]> {
+    if (!(await this.generator.check())) {
+      return [];
     }
 
-    const entries: CsvEntry[] = [];
-
-    return new Promise((resolve) => {
-      parseFile(this.inputFile, { delimiter: ',', ignoreEmpty: true, headers: true })
-        .on('error', () => this.handleError)
-        .on('data', (row: CsvEntry) => entries.push(row))
-        .on('end', () => {
-          const sortedByFile = this.groupResults(entries, Group.filename);
-          const listEntries = sortedByFile.map((el: ReviewFileExportSection) => {
-            const item = new CommentListEntry(
-              el.group,
-              `(${el.lines.length})`,
-              `${el.lines.length} comments`,
-              TreeItemCollapsibleState.Collapsed,
+    const entries = (await this.generator.store.load()).filter((row) => matchesCommentFilter(row, filter));
+
+    // in multi-root workspaces, the comments are grouped per workspace folder first
+    const folders = workspace.workspaceFolders ?? [];
+    if (folders.length > 1) {
+      return [...this.buildProjectEntries(entries), ...this.buildWorkspaceFolderEntries(entries, folders)];
+    }
+    return this.buildGroupedEntries(entries, groupBy);
+  }
+
+  /**
+   * get the comments of a workspace folder as CommentListEntry for VSCode view
+   * @param folder the workspace folder entry
+   * @param groupBy the grouping of the comments
+   */
+  getWorkspaceFolderContent(
+    folder: CommentListEntry,
+    groupBy: ExplorerGroupBy = Group.filename,
+  ): Thenable<CommentListEntry[]> {
+    return Promise.resolve(this.buildGroupedEntries(folder.data.lines, groupBy, folder.data.group));
+  }
+
+  /**
+   * Build the entries of the comments for the requested grouping
+   *
+   * @param entries The comments
+   * @param groupBy The grouping of the comments
+   * @param folderName The prefix of the filenames in a multi-root workspace (empty for the first folder)
+   * @return CommentListEntry[]
+   */
+  private buildGroupedEntries(entries: CsvEntry[], groupBy: ExplorerGroupBy, folderName = ''): CommentListEntry[] {
+    // the comments on the whole project get their own node when grouped by file or folder
+    const projectEntries = this.buildProjectEntries(entries);
+    const fileEntries = entries.filter((entry) => getCommentScope(entry) !== CommentScope.project);
+    switch (groupBy) {
+      case 'folder':
+        return [...projectEntries, ...this.buildFolderEntries(fileEntries, folderName)];
+      case Group.category: {
+        const sortedByCategory = this.groupResults(entries, Group.category).sort((a, b) =>
+          a.group.localeCompare(b.group),
+        );
+        return sortedByCategory.map((el) => this.buildGroupEntry(el, el.group));
+      }
+      case Group.priority: {
+        const sortedByPriority = this.groupResults(entries, Group.priority).sort(
+          (a, b) => Number(b.group) - Number(a.group),
+        );
+        return sortedByPriority.map((el) => this.buildGroupEntry(el, getPriorityName(Number(el.group) || 0)));
+      }
+      default: {
+        const sortedByFile = this.groupResults(fileEntries, Group.filename);
+        return [
+          ...projectEntries,
+          ...sortedByFile.map((el) =>
+            this.buildFileEntry(
               el,
-            );
-            item.command = {
-              command: 'codeReview.openSelection',
-              title: 'reveal comment',
-              arguments: [el],
-            };
-            item.contextValue = 'file';
-            item.iconPath = {
-              light: this.context.asAbsolutePath(path.join('dist', 'document-light.svg')),
-              dark: this.context.asAbsolutePath(path.join('dist', 'document-dark.svg')),
-            };
-            return item;
-          });
-          resolve(listEntries);
-        });
+              // the name of the workspace folder is already displayed by the parent entry
+              folderName ? removeLeadingSlash(el.group.replace(/\\/g, '/')).substring(folderName.length) : el.group,
+            ),
+          ),
+        ];
+      }
+    }
+  }
+
+  /**
+   * Build the entries of the workspace folders containing comments
+   *
+   * @param entries All comments
+   * @param folders The workspace folders
+   * @return CommentListEntry[]
+   */
+  private buildWorkspaceFolderEntries(entries: CsvEntry[], folders: readonly WorkspaceFolder[]): CommentListEntry[] {
+    const entriesByFolder = new Map<WorkspaceFolder, CsvEntry[]>();
+    entries
+      .filter((entry) => getCommentScope(entry) !== CommentScope.project)
+      .forEach((entry) => {
+        // files outside of the workspace folders are related to the first one
+        const folder =
+          getWorkspaceFolderOfFile(folders, resolveWorkspacePath(this.workspaceRoot, entry.filename)) ?? folders[0];
+        entriesByFolder.set(folder, [...(entriesByFolder.get(folder) ?? []), entry]);
+      });
+
+    return folders
+      .filter((folder) => entriesByFolder.has(folder))
+      .map((folder) => {
+        const lines = entriesByFolder.get(folder)!;
+        const item = new CommentListEntry(
+          folder.name,
+          `(${lines.length})`,
+          folder.uri.fsPath,
+          TreeItemCollapsibleState.Expanded,
+          { group: folder.uri.fsPath === this.workspaceRoot ? '' : folder.name, lines },
+        );
+        item.contextValue = 'workspaceFolder';
+        item.iconPath = new ThemeIcon('root-folder');
+        return item;
+      });
+  }
+
+  /**
+   * get the sub-folders and files of a folder as CommentListEntry for VSCode view
+   * @param folder the folder entry
+   */
+  getFolderContent(folder: CommentListEntry): Thenable<CommentListEntry[]> {
+    return Promise.resolve(this.buildFolderEntries(folder.data.lines, folder.data.group));
+  }
+
+  /**
+   * Build the entries of the direct sub-folders and files of a folder
+   *
+   * @param entries The comments of all files located in the folder
+   * @param folderPath The relative path of the folder (empty for the workspace root)
+   * @return CommentListEntry[]
+   */
+  private buildFolderEntries(entries: CsvEntry[], folderPath: string): CommentListEntry[] {
+    const folders = new Map<string, CsvEntry[]>();
+    const files: CsvEntry[] = [];
+
+    entries.forEach((entry) => {
+      const filePath = removeLeadingSlash(entry.filename.replace(/\\/g, '/'));
+      const relativePath = folderPath ? filePath.substring(folderPath.length + 1) : filePath;
+      const [folderName, ...rest] = relativePath.split('/');
+      if (rest.length) {
+        folders.set(folderName, [...(folders.get(folderName) ?? []), entry]);
+      } else {
+        files.push(entry);
+      }
     });
+
+    const folderEntries = Array.from(folders.keys())
+      .sort((a, b) => a.localeCompare(b))
+      .map((folderName) => {
+        const lines = folders.get(folderName)!;
+        const item = new CommentListEntry(
+          folderName,
+          `(${lines.length})`,
+          `${lines.length} comments`,
+          TreeItemCollapsibleState.Collapsed,
+          { group: folderPath ? `${folderPath}/${folderName}` : folderName, lines },
+        );
+        item.contextValue = 'folder';
+        item.iconPath = ThemeIcon.Folder;
+        return item;
+      });
+    const fileEntries = this.groupResults(files, Group.filename)
+      .sort((a, b) => a.group.localeCompare(b.group))
+      .map((el) => this.buildFileEntry(el, path.basename(el.group)));
+
+    return [...folderEntries, ...fileEntries];
+  }
+
+  /**
+   * Build the entry of a file containing comments
+   *
+   * @param el The comments of the file
+   * @param label The label of the entry
+   * @return CommentListEntry
+   */
+  private buildFileEntry(el: ReviewFileExportSection, label: string): CommentListEntry {
+    const item = new CommentListEntry(
+      label,
+      `(${el.lines.length})`,
+      `${el.lines.length} comments`,
+      TreeItemCollapsibleState.Collapsed,
+      el,
+    );
+    item.command = {
+      command: 'codeReview.openSelection',
+      title: 'reveal comment',
+      arguments: [el],
+    };
+    item.contextValue = 'file';
+    item.iconPath = {
+      light: this.context.asAbsolutePath(path.join('dist', 'document-light.svg')),
+      dark: this.context.asAbsolutePath(path.join('dist', 'document-dark.svg')),
+    };
+    return item;
+  }
+
+  /**
+   * Build the entry of the comments related to the whole project
+   *
+   * @param entries All comments
+   * @return CommentListEntry[] The entry, or an empty list if there are no such comments
+   */
+  private buildProjectEntries(entries: CsvEntry[]): CommentListEntry[] {
+    const lines = entries.filter((entry) => getCommentScope(entry) === CommentScope.project);
+    if (!lines.length) {
+      return [];
+    }
+
+    const item = new CommentListEntry(
+      'General Notes',
+      `(${lines.length})`,
+      `${lines.length} comments on the whole project`,
+      TreeItemCollapsibleState.Collapsed,
+      { group: '', lines },
+    );
+    item.contextValue = 'project';
+    item.iconPath = new ThemeIcon('project');
+    return [item];
   }
 
-  private handleError(error: unknown) {
-    console.error(error);
+  /**
+   * Build the entry of a group of comments (e.g. a category)
+   *
+   * @param el The comments of the group
+   * @param label The label of the entry
+   * @return CommentListEntry
+   */
+  private buildGroupEntry(el: ReviewFileExportSection, label: string): CommentListEntry {
+    const item = new CommentListEntry(
+      label,
+      `(${el.lines.length})`,
+      `${el.lines.length} comments`,
+      TreeItemCollapsibleState.Collapsed,
+      el,
+    );
+    item.contextValue = 'group';
+    return item;
+  }
+
+  /**
+   * Check if a comment does not require any further action
+   *
+   * @param entry The comment to check
+   * @return boolean
+   */
+  private isClosed(entry: CsvEntry): boolean {
+    return entry.status === CommentStatus.resolved || entry.status === CommentStatus.wontFix;
   }
 
   private groupResults(rows: CsvEntry[], groupAttribute: GroupBy): ReviewFileExportSection[] {
@@ -358,7 +751,7 @@ export class ExportFactory {
     return reviewExportData;
   }
 
-  private getCodeForFile(filename: string, lines: string): string {
+  private async getCodeForFile(filename: string, lines: string): Promise<string> {
     if (!filename) {
       filename = '';
     }
@@ -367,32 +760,69 @@ export class ExportFactory {
     }
     let result = '';
     const lineRanges = lines.split('|'); // split: 2:2-12:2|8:0-18:5
-    const filePath = toAbsolutePath(this.workspaceRoot, filename);
-    if (lineRanges) {
-      lineRanges.forEach((rangeString: string) => {
-        if (rangeString) {
-          const range = rangeFromStringDefinition(rangeString, 1);
-          const fileContent = stripIndent(getFileContentForRange(filePath, range));
-          if (result) {
-            result = `${result}${EOL}...${EOL}${EOL}${fileContent}`;
-          } else {
-            result = fileContent;
-          }
+    const filePath = resolveWorkspacePath(this.workspaceRoot, filename);
+    for (const rangeString of lineRanges) {
+      if (rangeString) {
+        const range = rangeFromStringDefinition(rangeString, 1);
+        const fileContent = stripIndent(await getFileContentForRange(filePath, range));
+        if (result) {
+          result = `${result}${EOL}...${EOL}${EOL}${fileContent}`;
+        } else {
+          result = fileContent;
         }
-      });
+      }
     }
     return encode(result);
   }
 
-  private priorityName(priority: number) {
-    const priorityMap = workspace.getConfiguration().get('code-review.priorities') as string[];
-    return priorityMap[priority];
+  /**
+   * Write an exported file
+   *
+   * @param output The exported file
+   * @return Promise<boolean> true if the file was written, false otherwise
+   */
+  private async writeOutput(output: ExportOutput): Promise<boolean> {
+    if (await writeFileContent(toWorkspaceUri(output.file), output.content)) {
+      return true;
+    }
+
+    window.showErrorMessage(`Error when writing the file: '${output.file}'`);
+    return false;
+  }
+
+  /**
+   * Get a short description of a comment, to be used as title in issue tracking systems
+   *
+   * @param row The comment
+   * @return string The comment on a single line, cut after 100 characters (along with '...' at the end)
+   */
+  private shortDescription(row: CsvEntry): string {
+    const comment = row.comment.replace(/\r?\n/g, ' ');
+    return comment.length > 100 ? `${comment.substring(0, 100)}...` : comment;
+  }
+
+  /**
+   * Render the replies of a comment as a section for issue tracking systems
+   *
+   * @param row The comment
+   * @param headline The headline of the section
+   * @param prefix Builds the text to put in front of each reply
+   * @return string The section, or an empty string when there are no replies
+   */
+  private repliesSection(row: CsvEntry, headline: string, prefix: (reply: CommentReply) => string): string {
+    const replies = parseReplies(row.replies);
+    if (!replies.length) {
+      return '';
+    }
+
+    const lines = replies.map((reply) => `${prefix(reply)}${reply.comment}`);
+    return `${headline}${EOL}${lines.join(EOL)}${EOL}`;
   }
 
-  private showPreview(outputFile: string) {
+  private showPreview(html: string) {
     const panel = window.createWebviewPanel('text', 'Code Review HTML Report', ViewColumn.Beside, {
       enableScripts: true,
     });
-    panel.webview.html = fs.readFileSync(outputFile, 'utf8');
+    panel.webview.html = html;
   }
 }
@@ -1,30 +1,74 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 
-import { commands, workspace, window, ExtensionContext, WorkspaceFolder, Uri, Range, ViewColumn } from 'vscode';
+import {
+  commands,
+  workspace,
+  window,
+  ExtensionContext,
+  WorkspaceFolder,
+  Uri,
+  Range,
+  ViewColumn,
+  CommentReply,
+  languages,
+  StatusBarAlignment,
+  FileSystemWatcher,
+  RelativePattern,
+  DocumentFilter,
+  ConfigurationTarget,
+} from 'vscode';
 import * as path from 'path';
-import * as fs from 'fs';
 
 import { CheckFlag, FileGenerator } from './file-generator';
 import { ReviewCommentService } from './review-comment';
-import { getWorkspaceFolder, rangeFromStringDefinition } from './utils/workspace-util';
+import {
+  getGitRepositoryPath,
+  getWorkspaceFolder,
+  rangesFromStringDefinition,
+  resolveWorkspacePath,
+  toWorkspaceUri,
+} from './utils/workspace-util';
 import { WebViewComponent } from './webview';
 import { ExportFactory } from './export-factory';
 import { CommentView, CommentsProvider } from './comment-view';
-import { ReviewFileExportSection } from './interfaces';
-import { CsvEntry } from './model';
+import { ExplorerGroupBy, Group, ReviewFileExportSection } from './interfaces';
+import { CommentScope, CommentStatus, commentStatusLabels, CsvEntry, getCommentScope } from './model';
 import { CommentListEntry } from './comment-list-entry';
+import { ReviewCommentController, ReviewThreadComment } from './comment-controller';
+import { CommentDecorations } from './comment-decorations';
+import { CommentHoverProvider } from './comment-hover';
+import { CommentCodeLensProvider } from './comment-code-lens';
+import { CommentDiagnostics } from './comment-diagnostics';
+import { CommentAnchoring } from './comment-anchoring';
+import { StaleCommentDetector } from './comment-staleness';
+import { BranchReview } from './branch-review';
+import { getGitBranches, getGitCurrentBranch } from './utils/git-utils';
+import { CommentNavigator } from './comment-navigation';
+import { CommentSearch } from './comment-search';
+import { CommentFilterPicker } from './comment-filter';
+import { createEmptyFilter } from './utils/filter-utils';
+import { defaultSessionId, ReviewSession, ReviewSessionManager } from './review-session';
+import { fileExists } from './utils/fs-utils';
+import { StorageFormat, getStorageFileExtension, storageFormatLabels } from './comment-store';
 
-const checkForCodeReviewFile = (fileName: string) => {
-  commands.executeCommand('setContext', 'codeReview:displayCodeReviewExplorer', fs.existsSync(fileName));
+const checkForCodeReviewFile = (uri: Uri) => {
+  fileExists(uri).then((exists) =>
+    commands.executeCommand('setContext', 'codeReview:displayCodeReviewExplorer', exists),
+  );
 };
 
 // this method is called when your extension is activated
 // your extension is activated the very first time the command is executed
-export function activate(context: ExtensionContext) {
+export async function activate(context: ExtensionContext) {
   const workspaceRoot: string = getWorkspaceFolder(workspace.workspaceFolders as WorkspaceFolder[]);
-  const generator = new FileGenerator(workspaceRoot);
-  generator.check(CheckFlag.format | CheckFlag.migrate);
+  const sessions = new ReviewSessionManager(workspaceRoot);
+  await sessions.load();
+  const generator = new FileGenerator(workspaceRoot, sessions);
+  // the migration is confirmed by the user: the activation must not wait for it (the file watcher refreshes the views)
+  generator
+    .check(CheckFlag.format | CheckFlag.migrate)
+    .catch((error) => window.showErrorMessage(`Error when checking the review file: ${error}`));
   const webview = new WebViewComponent(context);
 
   const defaultConfigurationTemplatePath = workspace
@@ -34,44 +78,154 @@ export function activate(context: ExtensionContext) {
     ? Uri.file(defaultConfigurationTemplatePath)
     : Uri.parse(context.asAbsolutePath(path.join('dist', 'template.default.hbs')));
 
-  const exportFactory = new ExportFactory(context, workspaceRoot, generator);
+  const staleDetector = new StaleCommentDetector(workspaceRoot);
+  const branchReview = new BranchReview(workspaceRoot, generator);
+  await branchReview.load();
+  const exportFactory = new ExportFactory(context, workspaceRoot, generator, staleDetector, branchReview);
 
   /**
    * register comment view
    */
-  const commentProvider = new CommentsProvider(context, exportFactory);
+  const commentProvider = new CommentsProvider(context, exportFactory, branchReview);
 
-  // refresh comment view on manual changes in the review file
-  const fileWatcher = workspace.createFileSystemWatcher(`**/${generator.reviewFileName}`);
-  checkForCodeReviewFile(generator.reviewFilePath);
-  fileWatcher.onDidChange(() => {
-    commentProvider.refresh();
-  });
-  fileWatcher.onDidCreate(() => {
+  // create a new file if not already exist
+  const commentService = new ReviewCommentService(generator, workspaceRoot);
+
+  /**
+   * register comment threads in the editors
+   */
+  const commentController = new ReviewCommentController(commentService, workspaceRoot);
+
+  /**
+   * register gutter and overview ruler markers in the editors
+   */
+  const commentDecorations = new CommentDecorations(context, commentService, workspaceRoot);
+
+  /**
+   * register the review comments preview when hovering commented code
+   */
+  // the files of remote and virtual workspaces are not using the 'file' scheme
+  const documentSelector: DocumentFilter[] = [
+    ...new Set((workspace.workspaceFolders ?? []).map((folder) => folder.uri.scheme).concat('file')),
+  ].map((scheme) => ({ scheme }));
+  const hoverProviderRegistration = languages.registerHoverProvider(
+    documentSelector,
+    new CommentHoverProvider(commentService, workspaceRoot, staleDetector),
+  );
+
+  /**
+   * register the summary of the review comments above commented code
+   */
+  const codeLensProvider = new CommentCodeLensProvider(commentService, workspaceRoot);
+  const codeLensProviderRegistration = languages.registerCodeLensProvider(documentSelector, codeLensProvider);
+
+  /**
+   * register the review comments as diagnostics in the Problems panel
+   */
+  const commentDiagnostics = new CommentDiagnostics(commentService, workspaceRoot);
+
+  /**
+   * keep the comments attached to the commented code when it moves
+   */
+  const commentAnchoring = new CommentAnchoring(commentService, workspaceRoot);
+  workspace.textDocuments.forEach((document) => commentAnchoring.reanchor(document));
+
+  // the stale comments are computed in the background, the views are refreshed once they are known
+  const refreshStaleComments = () => commentService.getComments().then((entries) => staleDetector.refresh(entries));
+  const staleCommentsListener = staleDetector.onDidChange(() => commentProvider.refresh());
+  // the changes since the commits of the comments depend on HEAD
+  const gitHeadWatcher = workspace.createFileSystemWatcher('**/.git/{HEAD,refs/heads/**}');
+  gitHeadWatcher.onDidChange(() => refreshStaleComments());
+  gitHeadWatcher.onDidCreate(() => refreshStaleComments());
+  gitHeadWatcher.onDidDelete(() => refreshStaleComments());
+
+  // refresh everything displaying the stored comments
+  const refreshComments = () => {
     commentProvider.refresh();
-    checkForCodeReviewFile(generator.reviewFilePath);
+    commentController.refresh();
+    commentDecorations.refresh();
+    codeLensProvider.refresh();
+    commentDiagnostics.refresh();
+    refreshStaleComments();
+  };
+  commentController.refresh();
+  commentDecorations.refresh();
+  commentDiagnostics.refresh();
+  refreshStaleComments();
+
+  // refresh comment view on manual changes in the review file (of the active session)
+  let fileWatcher: FileSystemWatcher | undefined;
+  const watchReviewFile = () => {
+    fileWatcher?.dispose();
+    fileWatcher = workspace.createFileSystemWatcher(
+      new RelativePattern(workspace.workspaceFolders?.[0] ?? workspaceRoot, generator.reviewFileName),
+    );
+    checkForCodeReviewFile(generator.reviewFileUri);
+    fileWatcher.onDidChange(() => {
+      refreshComments();
+    });
+    fileWatcher.onDidCreate(() => {
+      refreshComments();
+      checkForCodeReviewFile(generator.reviewFileUri);
+    });
+    fileWatcher.onDidDelete(() => {
+      refreshComments();
+      checkForCodeReviewFile(generator.reviewFileUri);
+    });
+  };
+  watchReviewFile();
+
+  /**
+   * display the active review session in the status bar
+   */
+  const sessionStatusBarItem = window.createStatusBarItem(StatusBarAlignment.Left);
+  sessionStatusBarItem.command = 'codeReview.switchSession';
+  const updateSessionStatusBarItem = (session: ReviewSession) => {
+    sessionStatusBarItem.text = `$(checklist) ${session.name}`;
+    sessionStatusBarItem.tooltip = [
+      `Review session: ${session.name}`,
+      session.reviewer ? `Reviewer: ${session.reviewer}` : '',
+      session.targetRef ? `Target: ${session.targetRef}` : '',
+      `File: ${generator.reviewFileName}`,
+    ]
+      .filter((line) => line)
+      .join('\n');
+  };
+  updateSessionStatusBarItem(sessions.activeSession);
+  sessionStatusBarItem.show();
+
+  // everything reading the review file follows the active session
+  const activeSessionListener = sessions.onDidChangeActiveSession(async (session) => {
+    await generator.check(CheckFlag.format | CheckFlag.migrate);
+    await branchReview.load();
+    watchReviewFile();
+    updateSessionStatusBarItem(session);
+    refreshComments();
   });
-  fileWatcher.onDidDelete(() => {
-    commentProvider.refresh();
-    checkForCodeReviewFile(generator.reviewFilePath);
+
+  // the name of the review file depends on the storage format
+  const storageFormatListener = workspace.onDidChangeConfiguration(async (event) => {
+    if (event.affectsConfiguration('code-review.storage')) {
+      await generator.check(CheckFlag.format | CheckFlag.migrate);
+      watchReviewFile();
+      updateSessionStatusBarItem(sessions.activeSession);
+      refreshComments();
+    }
   });
 
   // instantiate comment view
   new CommentView(commentProvider);
 
-  // create a new file if not already exist
-  const commentService = new ReviewCommentService(generator.reviewFilePath, workspaceRoot);
-
   /**
    * register comment panel web view
    */
-  const addNoteRegistration = commands.registerCommand('codeReview.addNote', () => {
+  const addNoteRegistration = commands.registerCommand('codeReview.addNote', async () => {
     if (!window.activeTextEditor?.selection) {
       window.showErrorMessage(`No selection made. Please select something you want to add a comment to and try again.`);
       return;
     }
     // Execute every time a comment will be added to check file format
-    if (!generator.create()) {
+    if (!(await generator.create())) {
       return;
     }
 
@@ -79,17 +233,417 @@ export function activate(context: ExtensionContext) {
     commentProvider.refresh();
   });
 
+  /**
+   * add a comment related to a whole file
+   * (from the explorer, the Comment Explorer or for the file of the active editor)
+   */
+  const addFileNoteRegistration = commands.registerCommand(
+    'codeReview.addFileNote',
+    async (target?: Uri | CommentListEntry) => {
+      let fileName = window.activeTextEditor?.document.fileName;
+      if (target instanceof Uri) {
+        fileName = target.fsPath;
+      } else if (target?.data?.group) {
+        fileName = resolveWorkspacePath(workspaceRoot, target.data.group);
+      }
+
+      if (!fileName) {
+        window.showErrorMessage(`No file selected. Please select the file you want to add a comment to and try again.`);
+        return;
+      }
+      if (!(await generator.create())) {
+        return;
+      }
+
+      webview.addFileComment(commentService, fileName);
+    },
+  );
+
+  /**
+   * add a comment related to the whole project
+   */
+  const addProjectNoteRegistration = commands.registerCommand('codeReview.addProjectNote', async () => {
+    if (!(await generator.create())) {
+      return;
+    }
+
+    webview.addProjectComment(commentService);
+  });
+
   /**
    * delete an existing comment
    */
-  const deleteNoteRegistration = commands.registerCommand('codeReview.deleteNote', (entry: CommentListEntry) => {
-    if (!generator.check()) {
+  const deleteNoteRegistration = commands.registerCommand('codeReview.deleteNote', async (entry: CommentListEntry) => {
+    if (!(await generator.check()) || !entry?.csvEntry) {
+      return;
+    }
+
+    await webview.deleteComment(commentService, entry.csvEntry);
+    refreshComments();
+  });
+
+  /**
+   * move a deleted comment from the trash back to the review file
+   */
+  const restoreNoteRegistration = commands.registerCommand(
+    'codeReview.restoreNote',
+    async (entry: CommentListEntry) => {
+      if (!(await generator.create()) || !entry?.csvEntry) {
+        return;
+      }
+
+      await commentService.restoreComment(entry.csvEntry.id);
+      refreshComments();
+    },
+  );
+
+  /**
+   * remove the deleted comments permanently
+   */
+  const emptyTrashRegistration = commands.registerCommand('codeReview.emptyTrash', async () => {
+    const answer = await window.showWarningMessage(
+      'Remove the deleted comments permanently?',
+      { modal: true },
+      'Empty Trash',
+    );
+    if (answer === 'Empty Trash') {
+      await commentService.emptyTrash();
+      commentProvider.refresh();
+    }
+  });
+
+  /**
+   * revert the last added, edited or deleted comment
+   */
+  const undoRegistration = commands.registerCommand('codeReview.undo', async () => {
+    if (await commentService.undo()) {
+      refreshComments();
+    }
+  });
+
+  /**
+   * change the lifecycle state of an existing comment
+   */
+  const setStatusRegistration = commands.registerCommand(
+    'codeReview.setStatus',
+    async (entry: CommentListEntry, status?: CommentStatus) => {
+      if (!(await generator.check()) || !entry?.csvEntry) {
+        return;
+      }
+
+      const updateStatus = async (newStatus: CommentStatus) => {
+        await commentService.updateComment({ ...entry.csvEntry!, status: newStatus });
+        refreshComments();
+      };
+
+      if (status) {
+        await updateStatus(status);
+        return;
+      }
+
+      const items = Array.from(commentStatusLabels, ([value, label]) => ({
+        label,
+        value,
+        picked: value === entry.csvEntry!.status,
+      }));
+      const item = await window.showQuickPick(items, { placeHolder: `Status of '${entry.label}'` });
+      if (item) {
+        await updateStatus(item.value);
+      }
+    },
+  );
+
+  /**
+   * create, reply to, edit and delete comments from the comment threads in the editors
+   */
+  const createThreadNoteRegistration = commands.registerCommand(
+    'codeReview.createThreadNote',
+    async (reply: CommentReply) => {
+      if (!(await generator.create())) {
+        return;
+      }
+
+      commentController.createNote(reply).then(() => commentProvider.refresh());
+    },
+  );
+  const replyToThreadNoteRegistration = commands.registerCommand(
+    'codeReview.replyToThreadNote',
+    async (reply: CommentReply) => {
+      if (!(await generator.check())) {
+        return;
+      }
+
+      commentController.replyToNote(reply).then(() => commentProvider.refresh());
+    },
+  );
+  const editThreadNoteRegistration = commands.registerCommand(
+    'codeReview.editThreadNote',
+    (comment: ReviewThreadComment) => {
+      commentController.editNote(comment);
+    },
+  );
+  const saveThreadNoteRegistration = commands.registerCommand(
+    'codeReview.saveThreadNote',
+    async (comment: ReviewThreadComment) => {
+      if (!(await generator.check())) {
+        return;
+      }
+
+      commentController.saveNote(comment).then(() => commentProvider.refresh());
+    },
+  );
+  const cancelEditThreadNoteRegistration = commands.registerCommand(
+    'codeReview.cancelEditThreadNote',
+    (comment: ReviewThreadComment) => {
+      commentController.cancelEditNote(comment);
+    },
+  );
+  const deleteThreadNoteRegistration = commands.registerCommand(
+    'codeReview.deleteThreadNote',
+    async (comment: ReviewThreadComment) => {
+      if (!(await generator.check())) {
+        return;
+      }
+
+      commentController.deleteNote(comment).then(() => commentProvider.refresh());
+    },
+  );
+
+  /**
+   * jump between the commented ranges
+   */
+  const commentNavigator = new CommentNavigator(commentService, workspaceRoot);
+  const nextCommentRegistration = commands.registerCommand('codeReview.nextComment', () => {
+    commentNavigator.next();
+  });
+  const previousCommentRegistration = commands.registerCommand('codeReview.previousComment', () => {
+    commentNavigator.previous();
+  });
+
+  /**
+   * search across all comments
+   */
+  const commentSearch = new CommentSearch(commentService, staleDetector);
+  const searchCommentsRegistration = commands.registerCommand('codeReview.searchComments', () => {
+    commentSearch.show();
+  });
+
+  /**
+   * list the comments whose code changed since the review
+   */
+  const listStaleCommentsRegistration = commands.registerCommand('codeReview.listStaleComments', () => {
+    commentSearch.showStale();
+  });
+
+  /**
+   * switch the grouping of the comments in the explorer
+   */
+  const setExplorerGroupByRegistration = commands.registerCommand('codeReview.setExplorerGroupBy', () => {
+    const options: { label: string; groupBy: ExplorerGroupBy }[] = [
+      { label: 'File', groupBy: Group.filename },
+      { label: 'Folder hierarchy', groupBy: 'folder' },
+      { label: 'Category', groupBy: Group.category },
+      { label: 'Priority', groupBy: Group.priority },
+    ];
+    const items = options.map((option) => ({
+      ...option,
+      description: option.groupBy === commentProvider.groupBy ? 'current' : undefined,
+    }));
+    window.showQuickPick(items, { placeHolder: 'Group the comments by' }).then((selected) => {
+      if (selected) {
+        commentProvider.setGroupBy(selected.groupBy);
+      }
+    });
+  });
+
+  /**
+   * filter the comments in the explorer
+   */
+  const commentFilterPicker = new CommentFilterPicker(commentService);
+  const filterCommentsRegistration = commands.registerCommand('codeReview.filterComments', () => {
+    commentFilterPicker.pick(commentProvider.filter).then((filter) => {
+      if (filter) {
+        commentProvider.setFilter(filter);
+      }
+    });
+  });
+  const clearFilterRegistration = commands.registerCommand('codeReview.clearFilter', () => {
+    commentProvider.setFilter(createEmptyFilter());
+  });
+
+  /**
+   * review the files changed on the current branch since a base ref
+   */
+  const startBranchReviewRegistration = commands.registerCommand('codeReview.startBranchReview', async () => {
+    if (!(await generator.create())) {
       return;
     }
 
-    webview.deleteComment(commentService, entry);
+    const quickPick = window.createQuickPick();
+    quickPick.placeholder = 'The base branch or ref to compare the current branch with (e.g. main)';
+    quickPick.items = getGitBranches(getGitRepositoryPath(workspaceRoot)).map((branch) => ({ label: branch }));
+    quickPick.onDidAccept(() => {
+      // any ref can be entered, not only the listed branches
+      const base = quickPick.selectedItems[0]?.label ?? quickPick.value.trim();
+      quickPick.hide();
+      if (base) {
+        branchReview.start(base).then((started) => started && commentProvider.refresh());
+      }
+    });
+    quickPick.onDidHide(() => quickPick.dispose());
+    quickPick.show();
+  });
+  const stopBranchReviewRegistration = commands.registerCommand('codeReview.stopBranchReview', async () => {
+    await branchReview.stop();
     commentProvider.refresh();
   });
+  const toggleFileReviewedRegistration = commands.registerCommand(
+    'codeReview.toggleFileReviewed',
+    async (entry: CommentListEntry) => {
+      await branchReview.toggleReviewed(entry.data.group);
+      commentProvider.refresh();
+    },
+  );
+
+  /**
+   * manage the review sessions
+   */
+  const pickSession = (placeHolder: string, filter: (session: ReviewSession) => boolean) => {
+    const activeId = sessions.activeSession.id;
+    const items = sessions.sessions
+      .filter((session) => !session.archived && filter(session))
+      .map((session) => ({
+        label: session.name,
+        description: [session.id === activeId ? 'active' : '', session.reviewer, session.targetRef]
+          .filter((part) => part)
+          .join(' · '),
+        detail: session.date ? `Started ${new Date(session.date).toLocaleString()}` : undefined,
+        session,
+      }));
+    return window.showQuickPick(items, { placeHolder }).then((item) => item?.session);
+  };
+
+  const createSessionRegistration = commands.registerCommand('codeReview.createSession', async () => {
+    const name = await window.showInputBox({
+      prompt: 'Name of the review session',
+      validateInput: (value) => (value.trim() ? undefined : 'The name cannot be empty'),
+    });
+    if (!name) {
+      return;
+    }
+    const reviewer = await window.showInputBox({ prompt: 'Reviewer', value: commentService.author });
+    if (reviewer === undefined) {
+      return;
+    }
+    const targetRef = await window.showInputBox({
+      prompt: 'Reviewed branch, tag or commit',
+      value: getGitCurrentBranch(getGitRepositoryPath(workspaceRoot)),
+    });
+    if (targetRef === undefined) {
+      return;
+    }
+
+    await sessions.create(name.trim(), reviewer.trim(), targetRef.trim());
+  });
+  const switchSessionRegistration = commands.registerCommand('codeReview.switchSession', () => {
+    pickSession('Switch to the review session', () => true).then((session) => {
+      if (session) {
+        sessions.switch(session.id);
+      }
+    });
+  });
+  const renameSessionRegistration = commands.registerCommand('codeReview.renameSession', () => {
+    pickSession('Rename the review session', () => true).then((session) => {
+      if (!session) {
+        return;
+      }
+      window
+        .showInputBox({
+          prompt: `New name of '${session.name}'`,
+          value: session.name,
+          validateInput: (value) => (value.trim() ? undefined : 'The name cannot be empty'),
+        })
+        .then((name) => {
+          if (name) {
+            sessions.rename(session.id, name.trim());
+          }
+        });
+    });
+  });
+  const archiveSessionRegistration = commands.registerCommand('codeReview.archiveSession', () => {
+    pickSession('Archive the review session', (session) => session.id !== defaultSessionId).then((session) => {
+      if (!session) {
+        return;
+      }
+      const reviewFile = `${session.fileName}${getStorageFileExtension(generator.storageFormat)}`;
+      window
+        .showWarningMessage(
+          `Archive the review session '${session.name}'? Its comments are kept in '${reviewFile}'.`,
+          { modal: true },
+          'Archive',
+        )
+        .then((answer) => {
+          if (answer === 'Archive') {
+            sessions.archive(session.id);
+          }
+        });
+    });
+  });
+
+  /**
+   * convert the review files to another storage format
+   */
+  const convertStorageRegistration = commands.registerCommand('codeReview.convertStorage', async () => {
+    const items = Object.values(StorageFormat)
+      .filter((format) => format !== generator.storageFormat)
+      .map((format) => ({ label: storageFormatLabels[format], format }));
+    const item = await window.showQuickPick(items, { placeHolder: 'Convert the review files to' });
+    if (!item || !(await generator.convert(item.format))) {
+      return;
+    }
+
+    await workspace.getConfiguration().update('code-review.storage', item.format, ConfigurationTarget.Workspace);
+    window.showInformationMessage(
+      `The review files were converted to ${item.label}: comments are now stored in '${generator.reviewFileName}'.`,
+    );
+  });
+
+  /**
+   * replace the review file by one of its backups (created by the migrations)
+   */
+  const restoreBackupRegistration = commands.registerCommand('codeReview.restoreBackup', async () => {
+    if (generator.storageFormat !== StorageFormat.csv) {
+      window.showInformationMessage('Only the CSV review files are backed up by the migrations.');
+      return;
+    }
+    const backups = await generator.getBackups();
+    if (!backups.length) {
+      window.showInformationMessage(`No backup of the review file '${generator.reviewFileName}' found.`);
+      return;
+    }
+
+    const items = backups.map((backup) => ({
+      label: path.basename(backup.uri.path),
+      description: new Date(backup.modified).toLocaleString(),
+      backup,
+    }));
+    const item = await window.showQuickPick(items, { placeHolder: 'Restore the review file from' });
+    if (!item) {
+      return;
+    }
+    const answer = await window.showWarningMessage(
+      `Replace the review file '${generator.reviewFileName}' by the backup '${item.label}'? A backup of the current file will be created.`,
+      { modal: true },
+      'Restore',
+    );
+    if (answer !== 'Restore' || !(await generator.restore(item.backup.uri))) {
+      return;
+    }
+
+    // the backup can have been created before a migration
+    await generator.check(CheckFlag.format | CheckFlag.migrate);
+    refreshComments();
+  });
 
   /**
    * allow users to export the report as HTML using the default output
@@ -161,19 +715,26 @@ export function activate(context: ExtensionContext) {
 
   const openSelectionRegistration = commands.registerCommand(
     'codeReview.openSelection',
-    (fileSection: ReviewFileExportSection, csvRef?: CsvEntry) => {
-      if (!generator.check()) {
+    async (fileSection: ReviewFileExportSection, csvRef?: CsvEntry) => {
+      if (!(await generator.check())) {
+        return;
+      }
+
+      // comments on the whole project are not related to a file to open
+      if (csvRef && getCommentScope(csvRef) === CommentScope.project) {
+        webview.editComment(commentService, [], csvRef);
         return;
       }
 
-      const filePath = path.join(workspaceRoot, fileSection.group);
-      workspace.openTextDocument(filePath).then(
+      const filePath = resolveWorkspacePath(workspaceRoot, fileSection.group);
+      workspace.openTextDocument(toWorkspaceUri(filePath)).then(
         (doc) => {
           window.showTextDocument(doc, ViewColumn.One).then((textEditor) => {
             if (csvRef) {
-              const rangesStringArray = csvRef.lines.split('|');
-              const ranges: Range[] = rangesStringArray.map((range) => rangeFromStringDefinition(range));
-              textEditor.revealRange(ranges[0]);
+              const ranges: Range[] = rangesFromStringDefinition(csvRef.lines);
+              if (ranges.length) {
+                textEditor.revealRange(ranges[0]);
+              }
               webview.editComment(commentService, ranges, csvRef);
             }
           });
@@ -192,7 +753,13 @@ export function activate(context: ExtensionContext) {
    */
   context.subscriptions.push(
     addNoteRegistration,
+    addFileNoteRegistration,
+    addProjectNoteRegistration,
     deleteNoteRegistration,
+    restoreNoteRegistration,
+    emptyTrashRegistration,
+    undoRegistration,
+    setStatusRegistration,
     exportAsHtmlWithDefaultTemplateRegistration,
     exportAsHtmlWithHandlebarsTemplateRegistration,
     exportAsGitLabImportableCsvRegistration,
@@ -200,6 +767,41 @@ export function activate(context: ExtensionContext) {
     exportAsJiraImportableCsvRegistration,
     exportAsJsonRegistration,
     openSelectionRegistration,
+    createThreadNoteRegistration,
+    replyToThreadNoteRegistration,
+    editThreadNoteRegistration,
+    saveThreadNoteRegistration,
+    cancelEditThreadNoteRegistration,
+    deleteThreadNoteRegistration,
+    nextCommentRegistration,
+    previousCommentRegistration,
+    searchCommentsRegistration,
+    listStaleCommentsRegistration,
+    startBranchReviewRegistration,
+    stopBranchReviewRegistration,
+    toggleFileReviewedRegistration,
+    setExplorerGroupByRegistration,
+    filterCommentsRegistration,
+    clearFilterRegistration,
+    createSessionRegistration,
+    switchSessionRegistration,
+    renameSessionRegistration,
+    archiveSessionRegistration,
+    convertStorageRegistration,
+    restoreBackupRegistration,
+    generator,
+    commentController,
+    commentDecorations,
+    hoverProviderRegistration,
+    codeLensProviderRegistration,
+    commentDiagnostics,
+    commentAnchoring,
+    sessionStatusBarItem,
+    activeSessionListener,
+    storageFormatListener,
+    staleCommentsListener,
+    gitHeadWatcher,
+    { dispose: () => fileWatcher?.dispose() },
   );
 }
 
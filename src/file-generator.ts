@@ -1,9 +1,21 @@
-import * as fs from 'fs';
-import { EOL } from 'os';
-import { workspace, window } from 'vscode';
+import * as path from 'path';
+import { commands, Disposable, EventEmitter, FileType, Uri, window, workspace } from 'vscode';
+import {
+  CommentStore,
+  ConflictResolution,
+  createCommentStore,
+  getStorageFileExtension,
+  StorageFormat,
+  StoreConflict,
+} from './comment-store';
+import { ReviewFileBackup } from './interfaces';
 import { CsvStructure } from './model';
-import { getCsvFileHeader, getCsvFileLinesAsIterable, setCsvFileContent } from './utils/storage-utils';
-import { getBackupFilename, toAbsolutePath } from './utils/workspace-util';
+import { ReviewSessionManager } from './review-session';
+import { MigrationPlan, planSchemaMigration } from './schema-migration';
+import { detectLineBreak } from './utils/csv-utils';
+import { fileExists, readFileContent, writeFileContent } from './utils/fs-utils';
+import { formatCsvFileContent, getCsvFileHeader, getCsvFileVersion, parseCsvFileContent } from './utils/storage-utils';
+import { getBackupFilename, isBackupFilename, toAbsolutePath, toWorkspaceUri } from './utils/workspace-util';
 
 /**
  * Code review file check operations
@@ -16,136 +28,359 @@ export enum CheckFlag {
 }
 
 export class FileGenerator {
-  private readonly defaultFileExtension = '.csv';
-  private defaultFileName = 'code-review';
+  private static readonly previewScheme = 'code-review-preview';
+  /** The content of the review file after a change to confirm (a migration or the resolution of a conflict) */
+  private preview = '';
+  private previewChanges = new EventEmitter<Uri>();
+  private previewProvider: Disposable;
+  /** The store of the active session, kept as it detects the modifications of the review file since it was read */
+  private activeStore?: CommentStore;
 
-  constructor(private workspaceRoot: string) {
-    const configFileName = workspace.getConfiguration().get('code-review.filename') as string;
-    if (configFileName) {
-      this.defaultFileName = configFileName;
-    }
+  constructor(private workspaceRoot: string, private sessions: ReviewSessionManager) {
+    this.previewProvider = workspace.registerTextDocumentContentProvider(FileGenerator.previewScheme, {
+      onDidChange: this.previewChanges.event,
+      provideTextDocumentContent: () => this.preview,
+    });
+  }
+
+  /**
+   * Get the configured storage format of the review files
+   */
+  public get storageFormat(): StorageFormat {
+    return (workspace.getConfiguration().get('code-review.storage') as StorageFormat) || StorageFormat.csv;
+  }
+
+  /**
+   * Get the name of the review file of the active session, without extension
+   */
+  public get baseFileName(): string {
+    return this.sessions.activeSession.fileName;
   }
 
   public get reviewFileName(): string {
-    return `${this.defaultFileName}${this.defaultFileExtension}`;
+    return `${this.baseFileName}${getStorageFileExtension(this.storageFormat)}`;
   }
 
   public get reviewFilePath(): string {
     return toAbsolutePath(this.workspaceRoot, this.reviewFileName);
   }
 
+  /**
+   * Get the URI of the review file (see `toWorkspaceUri`)
+   */
+  public get reviewFileUri(): Uri {
+    return toWorkspaceUri(this.reviewFilePath);
+  }
+
+  /**
+   * Get the store of the comments of the active session
+   */
+  public get store(): CommentStore {
+    const uri = this.reviewFileUri;
+    // the URI changes with the session and the storage format
+    if (this.activeStore?.uri.toString() !== uri.toString()) {
+      this.activeStore = createCommentStore(this.storageFormat, uri, (conflict) => this.resolveConflict(conflict));
+    }
+    return this.activeStore;
+  }
+
+  /**
+   * Get the store of the comments deleted from the review file of the active session (located next to the review file)
+   */
+  public get trash(): CommentStore {
+    return createCommentStore(
+      this.storageFormat,
+      this.getReviewFileUri(`${this.baseFileName}.trash`, this.storageFormat),
+    );
+  }
+
+  /**
+   * Get the path of the file storing the state of the branch review (located next to the review file)
+   */
+  public get branchReviewFilePath(): string {
+    return toAbsolutePath(this.workspaceRoot, `${this.baseFileName}.branch-review.json`);
+  }
+
   /**
    * Try to create the code review file if not already exist
    *
-   * @return boolean true if the file was succesfuly created, false otherwise
+   * @return Promise<boolean> true if the file was succesfuly created, false otherwise
    */
-  public create(): boolean {
-    if (fs.existsSync(this.reviewFilePath)) {
-      if (!this.check()) {
+  public async create(): Promise<boolean> {
+    if (await fileExists(this.reviewFileUri)) {
+      if (!(await this.check())) {
         return false;
       }
     } else {
-      try {
-        fs.writeFileSync(this.reviewFilePath, `${CsvStructure.headerLine}${EOL}`);
-        window.showInformationMessage(
-          `Code review file: '${this.defaultFileName}${this.defaultFileExtension}' successfully created.`,
-        );
-      } catch (err) {
-        window.showErrorMessage(`Error when trying to create code review file: '${this.reviewFilePath}': ${err}`);
+      if (!(await this.store.create())) {
+        window.showErrorMessage(`Error when trying to create code review file: '${this.reviewFilePath}'`);
         return false;
       }
+      window.showInformationMessage(`Code review file: '${this.reviewFileName}' successfully created.`);
     }
 
     return true;
   }
 
   /**
-   * Check the content of the code review file
+   * Check the content of the code review file, the errors of a migration are reported to the user
    *
    * @param flags The verifications to perform
-   * @return boolean true if the content was successfuly checked (and migrated if requested), false otherwise
+   * @return Promise<boolean> true if the content was successfuly checked (and migrated if requested), false otherwise
    */
-  public check(flags: CheckFlag = CheckFlag.format): boolean {
-    if (!fs.existsSync(this.reviewFilePath)) {
+  public async check(flags: CheckFlag = CheckFlag.format): Promise<boolean> {
+    // only the CSV files have a header describing their format
+    if (this.storageFormat !== StorageFormat.csv || !(await fileExists(this.reviewFileUri))) {
       return true;
     }
 
     let result: boolean = true;
 
     if (flags & CheckFlag.format) {
-      result = this.checkFormat();
+      result = await this.checkFormat();
     }
 
     if (!result && flags & CheckFlag.migrate) {
-      result = this.migrate();
+      try {
+        result = await this.migrate();
+      } catch (error) {
+        window.showErrorMessage(`Error when migrating the review file "${this.reviewFilePath}": ${error}`);
+        result = false;
+      }
     }
 
     return result;
   }
 
-  private checkFormat(): boolean {
-    const currentHeader = getCsvFileHeader(this.reviewFilePath);
-    return currentHeader === CsvStructure.headerLine;
+  private async checkFormat(): Promise<boolean> {
+    const currentHeader = await getCsvFileHeader(this.reviewFileUri);
+    const currentVersion = await getCsvFileVersion(this.reviewFileUri);
+    return currentHeader === CsvStructure.headerLine && currentVersion === CsvStructure.version;
   }
 
   /**
    * Migrate the content of the code review file
    *
-   * @return boolean true if the migration was successful, false otherwise
+   * @return Promise<boolean> true if the migration was successful, false otherwise
    */
-  private migrate(): boolean {
-    const currentHeader = getCsvFileHeader(this.reviewFilePath);
-    if (currentHeader === CsvStructure.headerLine) {
+  private async migrate(): Promise<boolean> {
+    if (await this.checkFormat()) {
       return true;
     }
 
-    // Old/New headers must start with the same columns
-    if (!CsvStructure.headerLine.startsWith(currentHeader)) {
+    const fileContent = (await readFileContent(this.reviewFileUri)) ?? '';
+    const content = parseCsvFileContent(fileContent);
+    if (!content) {
+      window.showErrorMessage(`Cannot read the content of "${this.reviewFilePath}". Please adjust it manually`);
+      return false;
+    }
+    if (content.version > CsvStructure.version) {
       window.showErrorMessage(
-        `CSV header "${currentHeader ?? ''}" is not matching "${
-          CsvStructure.headerLine
-        }" format. Please adjust it manually`,
+        `The schema version ${content.version} of "${this.reviewFilePath}" is not supported. Please update the extension`,
       );
+      return false;
+    }
 
+    const plan = planSchemaMigration(content);
+    if (plan.unknownColumns.length) {
+      window.showErrorMessage(
+        `The review file "${this.reviewFilePath}" contains the unknown columns ${plan.unknownColumns
+          .map((column) => `'${column}'`)
+          .join(', ')} that would be lost. Please remove them manually to migrate it`,
+      );
+      return false;
+    }
+    const migratedContent = formatCsvFileContent(plan.content, detectLineBreak(fileContent));
+    if (!(await this.confirmMigration(plan, migratedContent))) {
       return false;
     }
 
-    // Deduct missing headers...
-    const missingHeaders = CsvStructure.headerLine.substring(currentHeader.length + 1).split(CsvStructure.separator);
-    let fileContent = '';
-    let isHeader = true;
-    // ...And append them to each row of the file...
-    for (const line of getCsvFileLinesAsIterable(this.reviewFilePath)) {
-      if (isHeader) {
-        fileContent += line + CsvStructure.separator + missingHeaders.join(CsvStructure.separator);
-        isHeader = false;
-      } else {
-        fileContent += line;
-        for (const column of missingHeaders) {
-          // ...With their respective default values.
-          fileContent += `${CsvStructure.separator}"${CsvStructure.getDefaultValue(column) ?? ''}"`;
-        }
+    // Make a copy of the previous file
+    try {
+      await this.backup();
+    } catch (error) {
+      window.showErrorMessage(`Error when creating a backup of "${this.reviewFilePath}", it is not migrated: ${error}`);
+      return false;
+    }
+
+    // Persist the file with the new format (the comments are read again by a new store)
+    this.activeStore = undefined;
+    if (!(await writeFileContent(this.reviewFileUri, migratedContent))) {
+      window.showErrorMessage(`Error in writing new content to the file "${this.reviewFilePath}".`);
+
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Ask for the confirmation of a migration, the migrated file can be compared with the review file before (dry run)
+   *
+   * @param plan The migration
+   * @param migratedContent The content of the migrated file
+   * @return Promise<boolean> true if the migration is confirmed, false otherwise
+   */
+  private async confirmMigration(plan: MigrationPlan, migratedContent: string): Promise<boolean> {
+    const message =
+      `The review file '${this.reviewFileName}' must be migrated from the schema version ${plan.fromVersion} to ${plan.toVersion}` +
+      ` (${plan.changes.join(', ')}). A backup of the file will be created.`;
+    const answer = await window.showWarningMessage(message, { modal: true }, 'Migrate', 'Preview');
+    if (answer !== 'Preview') {
+      return answer === 'Migrate';
+    }
+
+    await this.showPreview(migratedContent, 'migration preview');
+    return (await window.showWarningMessage(message, 'Migrate', 'Cancel')) === 'Migrate';
+  }
+
+  /**
+   * Ask how to resolve a conflict between a change of the comments and the modifications of the review file,
+   * the changed file can be compared with the review file before
+   *
+   * @param conflict The conflict
+   * @return Promise<ConflictResolution>
+   */
+  private async resolveConflict(conflict: StoreConflict): Promise<ConflictResolution> {
+    const message = `${conflict.message} Overwrite these modifications with your changes?`;
+    let answer = await window.showWarningMessage(message, { modal: true }, 'Overwrite', 'Compare');
+    if (answer === 'Compare') {
+      await this.showPreview(conflict.content, 'your changes');
+      answer = await window.showWarningMessage(message, 'Overwrite', 'Discard My Changes');
+    }
+    return answer === 'Overwrite' ? ConflictResolution.overwrite : ConflictResolution.discard;
+  }
+
+  /**
+   * Compare the review file with a changed content
+   *
+   * @param content The changed content of the review file
+   * @param label The label of the changed content
+   */
+  private async showPreview(content: string, label: string) {
+    const previewUri = Uri.parse(`${FileGenerator.previewScheme}:${this.reviewFileName}`);
+    this.preview = content;
+    this.previewChanges.fire(previewUri);
+    await commands.executeCommand('vscode.diff', this.reviewFileUri, previewUri, `${this.reviewFileName} (${label})`);
+  }
+
+  /**
+   * Get the backups of the review file of the active session
+   *
+   * @return Promise<ReviewFileBackup[]> The backups, the most recent first
+   */
+  public async getBackups(): Promise<ReviewFileBackup[]> {
+    const directory = toWorkspaceUri(path.dirname(this.reviewFilePath));
+    let files: [string, FileType][] = [];
+    try {
+      files = await workspace.fs.readDirectory(directory);
+    } catch (error) {
+      console.log('Cannot list the backups of the review file', directory.toString(), error);
+    }
+
+    const backups: ReviewFileBackup[] = [];
+    for (const [name, type] of files) {
+      if (type === FileType.File && isBackupFilename(this.reviewFilePath, name)) {
+        const uri = Uri.joinPath(directory, name);
+        backups.push({ uri, modified: (await workspace.fs.stat(uri)).mtime });
       }
+    }
+    return backups.sort((a, b) => b.modified - a.modified);
+  }
 
-      fileContent += EOL;
+  /**
+   * Copy the review file of the active session to a new backup (see `getBackups`)
+   *
+   * @return Promise<Uri> The URI of the backup
+   */
+  private async backup(): Promise<Uri> {
+    let index = 1;
+    let uri = toWorkspaceUri(getBackupFilename(this.reviewFilePath, index));
+    // the backups created in the same second are numbered
+    while (await fileExists(uri)) {
+      uri = toWorkspaceUri(getBackupFilename(this.reviewFilePath, ++index));
     }
 
-    // Make a copy of the previous file
-    fs.renameSync(this.reviewFilePath, getBackupFilename(this.reviewFilePath));
+    await workspace.fs.copy(this.reviewFileUri, uri);
+    return uri;
+  }
 
-    // Persist the file with the new format
-    if (!setCsvFileContent(this.reviewFilePath, fileContent)) {
-      window.showErrorMessage(`Error in writing new content to the file "${this.reviewFilePath}".`);
+  /**
+   * Replace the review file of the active session by one of its backups (a backup of the replaced file is created)
+   *
+   * @param backup The URI of the backup
+   * @return Promise<boolean> true if the review file was restored, false otherwise
+   */
+  public async restore(backup: Uri): Promise<boolean> {
+    try {
+      if (await fileExists(this.reviewFileUri)) {
+        await this.backup();
+      }
+      await workspace.fs.copy(backup, this.reviewFileUri, { overwrite: true });
+      this.activeStore = undefined;
+      return true;
+    } catch (error) {
+      window.showErrorMessage(`Error when restoring the review file from '${backup.fsPath}': ${error}`);
+      return false;
+    }
+  }
 
+  /**
+   * Convert the review files of all sessions to another storage format (the original files are kept)
+   *
+   * @param format The target storage format
+   * @return Promise<boolean> true if all review files were converted, false otherwise
+   */
+  public async convert(format: StorageFormat): Promise<boolean> {
+    const sourceFormat = this.storageFormat;
+    if (format === sourceFormat) {
+      return true;
+    }
+    if (!(await this.check(CheckFlag.format | CheckFlag.migrate))) {
       return false;
     }
 
+    // the deleted comments are converted along with the review files
+    const baseFileNames = this.sessions.sessions.map((session) => session.fileName);
+    for (const baseFileName of [...baseFileNames, ...baseFileNames.map((name) => `${name}.trash`)]) {
+      const source = createCommentStore(sourceFormat, this.getReviewFileUri(baseFileName, sourceFormat));
+      if (!(await fileExists(source.uri))) {
+        continue;
+      }
+
+      const target = createCommentStore(format, this.getReviewFileUri(baseFileName, format));
+      if (await fileExists(target.uri)) {
+        const answer = await window.showWarningMessage(
+          `The review file '${target.uri.fsPath}' already exists. Overwrite it?`,
+          { modal: true },
+          'Overwrite',
+        );
+        if (answer !== 'Overwrite') {
+          return false;
+        }
+      }
+
+      if (!(await target.save(await source.load()))) {
+        window.showErrorMessage(`Error when converting the review file '${source.uri.fsPath}'.`);
+        return false;
+      }
+    }
+
     return true;
   }
 
   /**
-   * not really using anything that needs to be disposed of, but
-   * including in case we need to use in a future update
+   * Get the URI of a review file
+   *
+   * @param baseFileName The name of the review file, without extension
+   * @param format The storage format of the review file
    */
-  dispose() {}
+  private getReviewFileUri(baseFileName: string, format: StorageFormat): Uri {
+    return toWorkspaceUri(toAbsolutePath(this.workspaceRoot, `${baseFileName}${getStorageFileExtension(format)}`));
+  }
+
+  dispose() {
+    this.previewProvider.dispose();
+    this.previewChanges.dispose();
+  }
 }
@@ -16,6 +16,24 @@ export enum Group {
   filename = 'filename',
 }
 export type GroupBy = keyof Pick<CsvEntry, Group.category | Group.priority | Group.filename>;
+/**
+ * Grouping of the comments in the Comment Explorer: the report groupings or the folder hierarchy
+ */
+export type ExplorerGroupBy = GroupBy | 'folder';
+
+/**
+ * The content of an exported file, written once all rows are handled
+ */
+export interface ExportOutput {
+  /**
+   * the filename/path to the target file
+   */
+  file: string;
+  /**
+   * the content of the target file
+   */
+  content: string;
+}
 
 export interface ExportMap {
   /**
@@ -30,21 +48,78 @@ export interface ExportMap {
   storeOutside: boolean;
   /**
    * write the first line in a file (e.g. headers for CSV files)
-   * @param outputFile the filename/path to the target file
+   * @param output the exported file
    */
-  writeFileHeader(outputFile: string): void;
+  writeFileHeader(output: ExportOutput): void;
   /**
    * Handle a row read from the file
-   * @param outputFile the filename/path to the target file
+   * @param output the exported file
    * @param row the current row data to be processed
    */
-  handleData(outputFile: string, row: CsvEntry): CsvEntry;
+  handleData(output: ExportOutput, row: CsvEntry): CsvEntry;
   /**
    * Handle when the file end has been reached
-   * @param outputFile the filename/path to the target file
+   * @param output the exported file
    * @param rows all rows of the file
    */
-  handleEnd(outputFile: string, rows: CsvEntry[], template?: Uri): void;
+  handleEnd(output: ExportOutput, rows: CsvEntry[], template?: Uri): Promise<void>;
 }
 
 export type ExportFormat = 'html' | 'gitlab' | 'github' | 'jira' | 'json';
+
+/**
+ * A file changed on the reviewed branch
+ */
+export interface BranchReviewFile {
+  /** The path relative to the workspace (same format as `CsvEntry.filename`) */
+  file: string;
+  reviewed: boolean;
+}
+
+/**
+ * The state of a branch review, stored next to the review file
+ */
+export interface BranchReviewState {
+  /** The ref the branch is compared to */
+  base: string;
+  /** Start date (ISO 8601) */
+  started: string;
+  files: BranchReviewFile[];
+}
+
+/**
+ * The review coverage of the changed files (see the HTML export)
+ */
+export interface BranchReviewCoverage {
+  base: string;
+  reviewed: number;
+  total: number;
+  /** The percentage of reviewed files (rounded) */
+  percent: number;
+  files: (BranchReviewFile & { comments: number })[];
+}
+
+/**
+ * The stored values of a comment, by column
+ */
+export type ReviewRecord = { [column: string]: string };
+
+/**
+ * The content of a review file, as read before any conversion to comments
+ */
+export interface ReviewFileContent {
+  /** The version of the schema of the file (see `CsvStructure.version`) */
+  version: number;
+  /** The stored columns, in their order */
+  columns: string[];
+  records: ReviewRecord[];
+}
+
+/**
+ * A backup of a review file (see `getBackupFilename`)
+ */
+export interface ReviewFileBackup {
+  uri: Uri;
+  /** The modification time (milliseconds since the epoch) */
+  modified: number;
+}
@@ -1,5 +1,7 @@
 const { v4: uuidv4 } = require('uuid');
 
+import { formatCsvRow } from './utils/csv-utils';
+
 // See detailed instructions in model.md
 
 /**
@@ -22,8 +24,141 @@ export interface CsvEntry {
   category: string;
   additional: string;
   code?: string;
+  /** The commented code changed since the review (computed, not stored) */
+  stale?: boolean;
   /** Unique identifier of the entry */
   id: string;
+  /** Lifecycle state of the entry */
+  status: CommentStatus;
+  /** Replies to the entry (JSON encoded list of CommentReply) */
+  replies: string;
+  /** The reviewer who wrote the entry */
+  author: string;
+  /** Creation date (ISO 8601) */
+  created: string;
+  /** Date of the last modification (ISO 8601) */
+  updated: string;
+  /** Fingerprints of the commented lines, used to relocate moved code (one per range, separated by `|`) */
+  fingerprints: string;
+  /** The commented code cannot be found anymore */
+  orphaned: boolean;
+  /** The lines at the commit of the entry (see `sha`) once they were relocated, empty otherwise */
+  reviewedLines: string;
+}
+
+/**
+ * Reply to a comment
+ */
+export interface CommentReply {
+  /** Unique identifier of the reply */
+  id: string;
+  author: string;
+  /** Creation date (ISO 8601) */
+  date: string;
+  comment: string;
+}
+
+/**
+ * Create a new reply
+ *
+ * @param comment The reply message
+ * @param author The author of the reply
+ * @return CommentReply
+ */
+export function createReply(comment: string, author: string): CommentReply {
+  return {
+    id: uuidv4(),
+    author,
+    date: new Date().toISOString(),
+    comment,
+  };
+}
+
+/**
+ * Decode the replies stored for a comment
+ *
+ * @param replies The JSON encoded replies
+ * @return CommentReply[] The replies, or an empty list when the value cannot be decoded
+ */
+export function parseReplies(replies?: string): CommentReply[] {
+  if (!replies) {
+    return [];
+  }
+
+  try {
+    const result = JSON.parse(replies);
+    return Array.isArray(result) ? result : [];
+  } catch (error) {
+    console.log('Cannot decode replies', replies, error);
+    return [];
+  }
+}
+
+/**
+ * Lifecycle states of a comment
+ */
+export enum CommentStatus {
+  open = 'open',
+  inProgress = 'in-progress',
+  resolved = 'resolved',
+  wontFix = 'wont-fix',
+}
+
+/**
+ * Human readable labels of the comment states
+ */
+export const commentStatusLabels: Map<CommentStatus, string> = new Map([
+  [CommentStatus.open, 'open'],
+  [CommentStatus.inProgress, 'in progress'],
+  [CommentStatus.resolved, 'resolved'],
+  [CommentStatus.wontFix, "won't fix"],
+]);
+
+/**
+ * Get the human readable label of a comment state
+ *
+ * @param status The state of the comment (an empty value is considered as open)
+ * @return string
+ */
+export function getStatusLabel(status?: string): string {
+  return commentStatusLabels.get((status || CommentStatus.open) as CommentStatus) ?? status!;
+}
+
+/**
+ * The part of the code base a comment is related to
+ */
+export enum CommentScope {
+  /** Some ranges of a file */
+  lines = 'lines',
+  /** A whole file */
+  file = 'file',
+  /** The whole project */
+  project = 'project',
+}
+
+/**
+ * Get the scope of a comment: comments without filename are related to the whole project,
+ * comments without lines to the whole file
+ *
+ * @param entry The comment
+ * @return CommentScope
+ */
+export function getCommentScope(entry: Pick<CsvEntry, 'filename' | 'lines'>): CommentScope {
+  if (!entry.filename) {
+    return CommentScope.project;
+  }
+  return entry.lines ? CommentScope.lines : CommentScope.file;
+}
+
+/**
+ * Check if the commented code of a comment cannot be found anymore
+ *
+ * @param entry The comment
+ * @return boolean
+ */
+export function isOrphaned(entry: Pick<CsvEntry, 'orphaned'>): boolean {
+  // the values read from the CSV file are strings
+  return String(entry.orphaned) === 'true';
 }
 
 /**
@@ -38,6 +173,7 @@ export interface CsvEntry {
 export function createCommentFromObject(object: any): CsvEntry {
   const comment = JSON.parse(object) as CsvEntry;
   comment.id = CsvStructure.getDefaultValue('id')!;
+  comment.status = comment.status || (CsvStructure.getDefaultValue('status') as CommentStatus);
 
   return comment;
 }
@@ -47,12 +183,18 @@ export function createCommentFromObject(object: any): CsvEntry {
  */
 export class CsvStructure {
   public static readonly separator = ',';
+  /**
+   * Version of the schema of the CSV file (files without version line use the version 1)
+   * See `schemaMigrations` for the changes of each version.
+   */
+  public static readonly version = 2;
+  private static readonly versionPrefix = '#schema-version:';
   /**
    * Columns stored in the CSV file
    *
    * **Attention!**
    * - Every new property of CsvEntry to be stored must be added to the end of the array.
-   * - A deprecated stored property can't be removed from the array.
+   * - A stored property can only be renamed or removed along with a migration (see `schemaMigrations`).
    */
   private static readonly headers: string[] = [
     'sha',
@@ -65,6 +207,14 @@ export class CsvStructure {
     'category',
     'additional',
     'id',
+    'status',
+    'replies',
+    'author',
+    'created',
+    'updated',
+    'fingerprints',
+    'orphaned',
+    'reviewedLines',
   ];
 
   /**
@@ -73,7 +223,17 @@ export class CsvStructure {
    * **Attention!**
    * Any stored property added to CsvEntry must have a corresponding entry in this map.
    */
-  private static readonly defaults: Map<string, () => any> = new Map([['id', () => uuidv4()]]);
+  private static readonly defaults: Map<string, () => any> = new Map([
+    ['id', () => uuidv4()],
+    ['status', () => CommentStatus.open],
+    ['replies', () => ''],
+    ['author', () => ''],
+    ['created', () => ''],
+    ['updated', () => ''],
+    ['fingerprints', () => ''],
+    ['orphaned', () => false],
+    ['reviewedLines', () => ''],
+  ]);
 
   /**
    * Get the header of a CSV file
@@ -82,6 +242,32 @@ export class CsvStructure {
     return CsvStructure.headers.join(CsvStructure.separator);
   }
 
+  /**
+   * Get the stored columns, in their order
+   */
+  public static get columns(): string[] {
+    return [...CsvStructure.headers];
+  }
+
+  /**
+   * Get the first line of a CSV file, giving the version of its format
+   */
+  public static get versionLine(): string {
+    return `${CsvStructure.versionPrefix}${CsvStructure.version}`;
+  }
+
+  /**
+   * Read the version of the format of a CSV file
+   *
+   * @param firstLine The first line of the file
+   * @return number The version, or 1 if the file does not start with a version line
+   */
+  public static parseVersionLine(firstLine: string): number {
+    return firstLine.startsWith(CsvStructure.versionPrefix)
+      ? Number(firstLine.substring(CsvStructure.versionPrefix.length)) || 1
+      : 1;
+  }
+
   /**
    * Get the default value of a stored column
    *
@@ -101,12 +287,10 @@ export class CsvStructure {
   public static formatAsCsvLine(comment: CsvEntry): string {
     const dict = JSON.parse(JSON.stringify(comment));
 
-    let columns: string[] = [];
     // Pick the comment properties values in the order of the columns
-    for (const property of CsvStructure.headers) {
-      columns.push(`"${dict[property] ?? ''}"`);
-    }
-
-    return columns.join(CsvStructure.separator);
+    return formatCsvRow(
+      CsvStructure.headers.map((property) => dict[property]),
+      CsvStructure.separator,
+    );
   }
 }
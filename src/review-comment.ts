@@ -1,24 +1,73 @@
-import * as fs from 'fs';
-import { EOL } from 'os';
-import { window, workspace, TextEditor } from 'vscode';
+import { window, workspace, TextEditor, Range, Uri } from 'vscode';
 const gitCommitId = require('git-commit-id');
 
-import { CsvEntry, CsvStructure } from './model';
+import { CommentScope, CommentStatus, createReply, CsvEntry, getCommentScope, parseReplies } from './model';
 import {
   removeLeadingAndTrailingSlash,
   removeTrailingSlash,
-  escapeDoubleQuotesForCsv,
-  escapeEndOfLineForCsv,
   startLineNumberFromStringDefinition,
   endLineNumberFromStringDefinition,
+  rangesFromStringDefinition,
+  getDocumentLines,
+  getGitRepositoryPath,
+  getGitRepositoryPathOfFile,
+  getWorkspaceFolderOfFile,
+  resolveWorkspacePath,
+  toWorkspaceRelativePath,
 } from './utils/workspace-util';
-import { CommentListEntry } from './comment-list-entry';
-import { getSelectionStringDefinition, hasSelection } from './utils/editor-utils';
-import { cleanCsvStorage, getCsvFileLinesAsArray } from './utils/storage-utils';
-import path from 'path';
+import { FileGenerator } from './file-generator';
+import { getRangesStringDefinition, getSelectionStringDefinition, hasSelection } from './utils/editor-utils';
+import { CommentStore } from './comment-store';
+import { deleteFile, fileExists } from './utils/fs-utils';
+import { getGitConfigValue, getGitUser } from './utils/git-utils';
+import { buildPermalink, parseRemoteUrl, RemoteHosts } from './utils/remote-utils';
+import { getRangesFingerprints } from './utils/anchor-utils';
+import * as path from 'path';
+
+/**
+ * A change of the comments which can be undone (the stores are kept as the active session can change meanwhile)
+ */
+type CommentChange =
+  | { kind: 'add'; store: CommentStore; comment: CsvEntry }
+  | { kind: 'update'; store: CommentStore; previous: CsvEntry }
+  | { kind: 'delete'; store: CommentStore; trash: CommentStore; comment: CsvEntry };
+
+const commentChangeLabels: { [kind in CommentChange['kind']]: string } = {
+  add: 'addition',
+  update: 'modification',
+  delete: 'deletion',
+};
 
 export class ReviewCommentService {
-  constructor(private reviewFile: string, private workspaceRoot: string) {}
+  /** Number of changes which can be undone */
+  private static readonly maxUndoChanges = 50;
+  /** The changes which can be undone, the last one at the end */
+  private changes: CommentChange[] = [];
+  /** The comments being edited by id, as stored when their modification started (see `startEdit`) */
+  private editedComments = new Map<string, CsvEntry>();
+
+  constructor(private generator: FileGenerator, private workspaceRoot: string) {}
+
+  /**
+   * Get the path of the review file of the active session
+   */
+  private get reviewFile(): string {
+    return this.generator.reviewFilePath;
+  }
+
+  /**
+   * Get the URI of the review file of the active session
+   */
+  private get reviewFileUri(): Uri {
+    return this.generator.reviewFileUri;
+  }
+
+  /**
+   * Get the store of the comments of the active session
+   */
+  private get store(): CommentStore {
+    return this.generator.store;
+  }
 
   /**
    * Append a new comment
@@ -26,15 +75,78 @@ export class ReviewCommentService {
    * @param editor The working text editor
    */
   async addComment(comment: CsvEntry, editor: TextEditor | null = null) {
-    this.checkFileExists();
+    await this.checkFileExists();
 
     if (!this.getSelectedLines(comment, editor)) {
       return;
     }
 
-    comment.filename = editor!.document.fileName.replace(this.workspaceRoot, '');
+    await this.appendComment(comment, editor!.document.fileName);
+  }
+
+  /**
+   * Append a new comment for some ranges of a file
+   * @param comment The comment message
+   * @param fileName The absolute path of the file
+   * @param ranges The ranges the comment is related to
+   */
+  async addCommentForRanges(comment: CsvEntry, fileName: string, ranges: readonly Range[]) {
+    await this.checkFileExists();
+
+    comment.lines = getRangesStringDefinition(ranges);
+    await this.appendComment(comment, fileName);
+  }
+
+  /**
+   * Append a new comment related to a whole file
+   * @param comment The comment message
+   * @param fileName The absolute path of the file
+   */
+  async addFileComment(comment: CsvEntry, fileName: string) {
+    await this.checkFileExists();
+
+    comment.lines = '';
+    await this.appendComment(comment, fileName);
+  }
+
+  /**
+   * Append a new comment related to the whole project
+   * @param comment The comment message
+   */
+  async addProjectComment(comment: CsvEntry) {
+    await this.checkFileExists();
+
+    comment.lines = '';
+    await this.appendComment(comment, '');
+  }
+
+  /**
+   * Get all stored comments
+   */
+  getComments(): Promise<CsvEntry[]> {
+    return this.store.load();
+  }
+
+  /**
+   * Remember a comment when its modification starts: the modifications of the review file made meanwhile
+   * are conflicts when the comment is stored, even if the review file was read again (e.g. to refresh the views)
+   * @param id The identifier of the comment
+   */
+  async startEdit(id: string) {
+    const stored = (await this.store.load()).find((entry) => entry.id === id);
+    if (stored) {
+      this.editedComments.set(id, stored);
+    } else {
+      this.editedComments.delete(id);
+    }
+  }
 
-    this.persistComments([this.buildCsvString(comment)], false);
+  /**
+   * Forget a comment when its modification is finished or aborted (see `startEdit`)
+   * @param id The identifier of the comment
+   */
+  endEdit(id: string) {
+    this.editedComments.delete(id);
   }
 
   /**
@@ -43,7 +155,9 @@ export class ReviewCommentService {
    * @param editor The working text editor
    */
   async updateComment(comment: CsvEntry, editor: TextEditor | null = null) {
-    this.checkFileExists();
+    // read before the editing ends (e.g. when the edit panel is closed)
+    const base = this.editedComments.get(comment.id);
+    await this.checkFileExists();
 
     // Store previous selected lines as they will be used for comment lookup
     const fallBackKey = comment.lines;
@@ -52,38 +166,172 @@ export class ReviewCommentService {
       return;
     }
 
-    const rows = getCsvFileLinesAsArray(this.reviewFile);
-    let updateRowIndex = rows.findIndex((row) => row.includes(comment.id));
-    if (updateRowIndex < 0) {
+    comment.author = comment.author || this.author;
+    comment.updated = new Date().toISOString();
+    if (comment.lines !== fallBackKey || !comment.fingerprints) {
+      // the comment is now related to another selection (or was made without fingerprints)
+      await this.fingerprint(comment);
+    }
+    if (base && comment.lines === fallBackKey) {
+      // the comment may have been relocated while it was edited (see `updateAnchors`)
+      comment.lines = base.lines;
+      comment.orphaned = base.orphaned;
+    }
+
+    const entries = await this.store.load();
+    let stored = entries.find((entry) => entry.id === comment.id);
+    if (!stored) {
       // Fallback method to find comment by filename/selection
-      updateRowIndex = rows.findIndex((row) => row.includes(comment.filename) && row.includes(fallBackKey));
+      stored = entries.find((entry) => entry.filename === comment.filename && entry.lines === fallBackKey);
     }
 
-    if (updateRowIndex < 0) {
+    if (!stored) {
       window.showErrorMessage(
         `Update failed. Cannot find line definition '${comment.lines}' for '${comment.filename}' in '${this.reviewFile}'.`,
       );
       return;
     }
 
-    rows[updateRowIndex] = this.buildCsvString(comment);
-    this.persistComments(rows);
+    comment.id = stored.id;
+    const store = this.store;
+    const completed = this.completeComment(comment);
+    if (await store.update([completed], base ? [base] : [])) {
+      this.recordChange({ kind: 'update', store, previous: stored });
+      if (this.editedComments.has(stored.id)) {
+        // the editing goes on (e.g. after a reply)
+        this.editedComments.set(stored.id, completed);
+      }
+    }
   }
 
-  async deleteComment(entry: CommentListEntry) {
-    this.checkFileExists();
+  /**
+   * Store the relocated lines of existing comments
+   * (the modification date and the reviewed commit are kept as the comments themselves are unchanged)
+   * @param comments The comments with updated lines and orphaned flags
+   */
+  async updateAnchors(comments: CsvEntry[]) {
+    await this.checkFileExists();
 
-    const oldFileContent = fs.readFileSync(this.reviewFile, 'utf8'); // get old content
-    const rows = oldFileContent.split(EOL);
-    // Escape text to search for
-    const textEscaped = escapeEndOfLineForCsv(escapeDoubleQuotesForCsv(entry.text));
-    const updateRowIndex = rows.findIndex((row) => row.includes(entry.label) && row.includes(textEscaped));
-    if (updateRowIndex > -1) {
-      rows.splice(updateRowIndex, 1);
-      this.persistComments(rows);
-    } else {
-      window.showErrorMessage(`Update failed. Cannot delete comment '${entry.label}' in '${this.reviewFile}'.`);
+    // only the link to the lines changes
+    const anchored = comments.map((comment) => ({ ...comment, url: this.commentUrl(comment) }));
+    if (await this.store.update(anchored)) {
+      // the relocation is not a conflict for the comments being edited
+      anchored
+        .filter((comment) => this.editedComments.has(comment.id))
+        .forEach(({ id, lines, orphaned, reviewedLines, url }) =>
+          this.editedComments.set(id, { ...this.editedComments.get(id)!, lines, orphaned, reviewedLines, url }),
+        );
+    }
+  }
+
+  /**
+   * Append a reply to an existing comment
+   * @param comment The comment to reply to (its replies are updated in place)
+   * @param text The reply message
+   */
+  async addReply(comment: CsvEntry, text: string) {
+    const reply = createReply(text, this.author);
+    comment.replies = JSON.stringify([...parseReplies(comment.replies), reply]);
+
+    await this.updateComment(comment);
+  }
+
+  /**
+   * Delete a comment, it is kept in the trash of the active session
+   * @param id The identifier of the comment
+   */
+  async deleteComment(id: string) {
+    const base = this.editedComments.get(id);
+    await this.checkFileExists();
+
+    const store = this.store;
+    const trash = this.generator.trash;
+    const stored = (await store.load()).find((entry) => entry.id === id);
+    if (!stored || !(await store.delete(id, base))) {
+      window.showErrorMessage(`Update failed. Cannot delete comment '${stored?.title ?? id}' in '${this.reviewFile}'.`);
+      return;
     }
+    this.editedComments.delete(id);
+
+    if (!(await trash.add(stored))) {
+      window.showErrorMessage(`The deleted comment '${stored.title}' cannot be kept in '${trash.uri.fsPath}'.`);
+    }
+    this.recordChange({ kind: 'delete', store, trash, comment: stored });
+  }
+
+  /**
+   * Get the comments deleted from the review file of the active session
+   */
+  getDeletedComments(): Promise<CsvEntry[]> {
+    return this.generator.trash.load();
+  }
+
+  /**
+   * Move a deleted comment from the trash back to the review file
+   * @param id The identifier of the deleted comment
+   */
+  async restoreComment(id: string) {
+    const trash = this.generator.trash;
+    const deleted = (await trash.load()).find((entry) => entry.id === id);
+    if (!deleted || !(await trash.delete(id))) {
+      window.showErrorMessage(`Cannot find the deleted comment '${id}' in '${trash.uri.fsPath}'.`);
+      return;
+    }
+
+    if (!(await this.store.add(deleted))) {
+      // keep it in the trash to not lose it
+      await trash.add(deleted);
+      window.showErrorMessage(`Cannot restore the comment '${deleted.title}' in '${this.reviewFile}'.`);
+    }
+  }
+
+  /**
+   * Remove the deleted comments of the active session permanently
+   */
+  async emptyTrash() {
+    await deleteFile(this.generator.trash.uri);
+  }
+
+  /**
+   * Revert the last added, edited or deleted comment
+   * @return Promise<boolean> true if a change was reverted, false otherwise
+   */
+  async undo(): Promise<boolean> {
+    const change = this.changes.pop();
+    if (!change) {
+      window.showInformationMessage('There is no change of the comments to undo.');
+      return false;
+    }
+
+    let reverted: boolean;
+    let comment: CsvEntry;
+    switch (change.kind) {
+      case 'add':
+        comment = change.comment;
+        reverted = await change.store.delete(comment.id);
+        break;
+      case 'update':
+        comment = change.previous;
+        reverted = await change.store.update([comment]);
+        break;
+      case 'delete':
+        comment = change.comment;
+        // the comment may have been restored from the trash meanwhile
+        reverted = await change.trash.delete(comment.id);
+        if (reverted && !(await change.store.add(comment))) {
+          await change.trash.add(comment);
+          reverted = false;
+        }
+        break;
+    }
+
+    const label = commentChangeLabels[change.kind];
+    if (!reverted) {
+      window.showErrorMessage(`Cannot undo the ${label} of the comment '${comment.title}': it was changed meanwhile.`);
+      return false;
+    }
+    window.showInformationMessage(`Undid the ${label} of the comment '${comment.title}'.`);
+    return true;
   }
 
   /**
@@ -118,46 +366,99 @@ export class ReviewCommentService {
   }
 
   /**
-   * Store the comments
+   * Complete and store a new comment
    *
-   * @param string[] rows The lines to store
-   * @param boolean overwrite Replace all (true) / append (false)
+   * @param comment The comment to store
+   * @param fileName The absolute path of the file the comment is related to
    */
-  private persistComments(rows: string[], overwrite: boolean = true) {
-    // The last line of the file must always be terminated with an EOL
-    const content = cleanCsvStorage(rows).join(EOL) + EOL;
+  private async appendComment(comment: CsvEntry, fileName: string) {
+    comment.filename = toWorkspaceRelativePath(this.workspaceRoot, fileName);
+    comment.author = this.author;
+    comment.created = new Date().toISOString();
+    comment.updated = comment.created;
+    await this.fingerprint(comment);
 
-    if (overwrite) {
-      fs.writeFileSync(this.reviewFile, content);
+    const store = this.store;
+    const completed = this.completeComment(comment);
+    if (await store.add(completed)) {
+      this.recordChange({ kind: 'add', store, comment: completed });
     } else {
-      fs.appendFileSync(this.reviewFile, content);
+      window.showErrorMessage(`Cannot add the comment '${completed.title}' to '${this.reviewFile}'.`);
+    }
+  }
+
+  /**
+   * Remember a change of the comments, to be able to undo it
+   * @param change The change
+   */
+  private recordChange(change: CommentChange) {
+    this.changes.push(change);
+    if (this.changes.length > ReviewCommentService.maxUndoChanges) {
+      this.changes.shift();
     }
   }
 
-  private buildCsvString(comment: CsvEntry): string {
+  /**
+   * Compute the fingerprints of the commented lines
+   *
+   * @param comment The comment to update (its filename must be set)
+   */
+  private async fingerprint(comment: CsvEntry) {
+    comment.orphaned = false;
+    if (getCommentScope(comment) !== CommentScope.lines) {
+      comment.fingerprints = '';
+      return;
+    }
+
+    const lines = await getDocumentLines(resolveWorkspacePath(this.workspaceRoot, comment.filename));
+    comment.fingerprints = getRangesFingerprints(lines, rangesFromStringDefinition(comment.lines));
+  }
+
+  /**
+   * Complete a comment to store with the default values, the commit and the link of the commented code
+   *
+   * @param comment The comment to store
+   * @return CsvEntry A completed copy of the comment
+   */
+  private completeComment(comment: CsvEntry): CsvEntry {
     const copy = { ...comment };
 
-    copy.comment = escapeEndOfLineForCsv(escapeDoubleQuotesForCsv(copy.comment));
-    copy.title = copy.title ? escapeDoubleQuotesForCsv(copy.title) : '';
+    copy.title = copy.title || '';
     copy.priority = copy.priority || 0;
-    copy.additional = copy.additional ? escapeDoubleQuotesForCsv(copy.additional) : '';
+    copy.additional = copy.additional || '';
     copy.category = copy.category || '';
-
-    const gitDirectory = workspace.getConfiguration().get('code-review.gitDirectory') as string;
-    const gitRepositoryPath = path.resolve(this.workspaceRoot, gitDirectory);
+    copy.status = copy.status || CommentStatus.open;
+    copy.replies = copy.replies || '';
+    copy.author = copy.author || '';
+    copy.created = copy.created || '';
+    copy.updated = copy.updated || '';
+    copy.fingerprints = copy.fingerprints || '';
+    // the lines are the ones at the new commit
+    copy.reviewedLines = '';
 
     try {
-      copy.sha = gitCommitId({ cwd: gitRepositoryPath });
+      copy.sha = gitCommitId({ cwd: this.getGitRepositoryPathOf(copy.filename) });
     } catch (error) {
       copy.sha = '';
       console.log('Not in a git repository. Leaving SHA empty', error);
     }
 
-    const startAnker = startLineNumberFromStringDefinition(copy.lines);
-    const endAnker = endLineNumberFromStringDefinition(copy.lines);
-    copy.url = this.remoteUrl(copy.sha, copy.filename, startAnker, endAnker);
+    copy.url = this.commentUrl(copy);
 
-    return CsvStructure.formatAsCsvLine(copy);
+    return copy;
+  }
+
+  /**
+   * Build the link to the commented code at the commit of a comment
+   *
+   * @param comment The comment
+   * @return string
+   */
+  private commentUrl(comment: CsvEntry): string {
+    const startAnker = startLineNumberFromStringDefinition(comment.lines);
+    const endAnker = endLineNumberFromStringDefinition(comment.lines);
+    // comments on the whole project are not related to a file to link to
+    return comment.filename ? this.remoteUrl(comment.sha, comment.filename, startAnker, endAnker) : '';
   }
 
   /**
@@ -168,13 +469,19 @@ export class ReviewCommentService {
    * @param end the last line from the first selection
    */
   private remoteUrl(sha: string, filePath: string, start?: number, end?: number) {
-    const customUrl = workspace.getConfiguration().get('code-review.customUrl') as string;
-    const baseUrl = workspace.getConfiguration().get('code-review.baseUrl') as string;
+    // the URLs are configured per workspace folder and use the file path relative to it
+    const absolutePath = resolveWorkspacePath(this.workspaceRoot, filePath);
+    const folder = getWorkspaceFolderOfFile(workspace.workspaceFolders, absolutePath);
+    const configuration = workspace.getConfiguration(undefined, folder?.uri);
+    const customUrl = configuration.get('code-review.customUrl') as string;
+    const baseUrl = configuration.get('code-review.baseUrl') as string;
 
-    const filePathWithoutLeadingAndTrailingSlash = removeLeadingAndTrailingSlash(filePath);
+    const filePathWithoutLeadingAndTrailingSlash = removeLeadingAndTrailingSlash(
+      folder ? absolutePath.replace(folder.uri.fsPath, '') : filePath,
+    );
 
     if (!baseUrl && !customUrl) {
-      return '';
+      return this.detectedRemoteUrl(sha, absolutePath, start, end);
     } else if (customUrl) {
       return customUrl
         .replace('{sha}', sha)
@@ -189,8 +496,62 @@ export class ReviewCommentService {
     }
   }
 
-  private checkFileExists() {
-    if (!fs.existsSync(this.reviewFile)) {
+  /**
+   * Build the remote URL from the `origin` remote of the git repository
+   * @param sha a git SHA that's included in the URL
+   * @param filePath the absolute file path
+   * @param start the first line from the first selection
+   * @param end the last line from the first selection
+   * @return string the permalink, or an empty string if the remote is not hosted on a known service
+   */
+  private detectedRemoteUrl(sha: string, filePath: string, start?: number, end?: number): string {
+    if (!sha) {
+      return '';
+    }
+
+    const hosts: RemoteHosts = {
+      gitlab: (workspace.getConfiguration().get('code-review.gitlabHosts') as string[]) ?? [],
+      gitea: (workspace.getConfiguration().get('code-review.giteaHosts') as string[]) ?? [],
+    };
+    const gitRepositoryPath = getGitRepositoryPathOfFile(this.workspaceRoot, filePath);
+    const repository = parseRemoteUrl(getGitConfigValue(gitRepositoryPath, 'remote.origin.url'), hosts);
+    if (!repository) {
+      return '';
+    }
+
+    // the file path in the repository may differ from the one in the workspace (see `code-review.gitDirectory`)
+    const repositoryFilePath = path.relative(gitRepositoryPath, filePath);
+    return buildPermalink(repository, sha, repositoryFilePath, start, end);
+  }
+
+  /**
+   * Get the author of new comments and replies
+   * The configured author takes precedence over the git user of the repository
+   */
+  get author(): string {
+    const configuredAuthor = workspace.getConfiguration().get('code-review.author') as string;
+    return configuredAuthor || getGitUser(this.gitRepositoryPath);
+  }
+
+  /**
+   * Get the path of the git repository
+   */
+  private get gitRepositoryPath(): string {
+    return getGitRepositoryPath(this.workspaceRoot);
+  }
+
+  /**
+   * Get the path of the git repository of a commented file (the one of the first folder for comments on the project)
+   * @param filename the stored filename
+   */
+  private getGitRepositoryPathOf(filename: string): string {
+    return filename
+      ? getGitRepositoryPathOfFile(this.workspaceRoot, resolveWorkspacePath(this.workspaceRoot, filename))
+      : this.gitRepositoryPath;
+  }
+
+  private async checkFileExists() {
+    if (!(await fileExists(this.reviewFileUri))) {
       window.showErrorMessage(`Could not add to file: '${this.reviewFile}': File does not exist`);
       return;
     }
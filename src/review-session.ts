@@ -0,0 +1,302 @@
+import * as path from 'path';
+import { Event, EventEmitter, workspace } from 'vscode';
+const { v4: uuidv4 } = require('uuid');
+
+import { readFileContent, writeFileContent } from './utils/fs-utils';
+import { toAbsolutePath, toWorkspaceUri } from './utils/workspace-util';
+
+/**
+ * A named review of the workspace with its own review file
+ */
+export interface ReviewSession {
+  /** Unique identifier of the session */
+  id: string;
+  name: string;
+  /** The reviewer conducting the session */
+  reviewer: string;
+  /** Creation date (ISO 8601) */
+  date: string;
+  /** The reviewed branch, tag or commit */
+  targetRef: string;
+  /** The name of the review file, without extension (relative to the workspace) */
+  fileName: string;
+  /** Archived sessions cannot be activated anymore */
+  archived: boolean;
+}
+
+/**
+ * The sessions of a workspace, stored next to the review files
+ */
+export interface ReviewSessionRegistry {
+  /** The identifier of the active session */
+  active: string;
+  sessions: ReviewSession[];
+}
+
+/**
+ * The identifier of the session using the configured review file (see `code-review.filename`)
+ */
+export const defaultSessionId = 'default';
+
+/**
+ * Build the name of the review file of a new session
+ *
+ * @param baseName The configured name of the review file (e.g. `code-review`)
+ * @param sessionName The name of the session
+ * @param existing The names of the review files of the other sessions
+ * @return string e.g. `code-review-v2-audit`
+ */
+export const getSessionFileName = (baseName: string, sessionName: string, existing: string[]): string => {
+  const slug = sessionName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  const fileName = slug ? `${baseName}-${slug}` : `${baseName}-session`;
+
+  let candidate = fileName;
+  for (let index = 2; existing.includes(candidate); index++) {
+    candidate = `${fileName}-${index}`;
+  }
+  return candidate;
+};
+
+/**
+ * Check if a stored value is a valid session
+ *
+ * @param value The parsed value
+ * @return boolean
+ */
+const isReviewSession = (value: any): value is ReviewSession =>
+  !!value &&
+  typeof value === 'object' &&
+  ['id', 'name', 'reviewer', 'date', 'targetRef'].every((key) => typeof value[key] === 'string') &&
+  (value.id === defaultSessionId || isWorkspaceFileName(value.fileName)) &&
+  typeof value.archived === 'boolean';
+
+/**
+ * Check if a stored name of a review file stays in the workspace (the sessions file is shared with the repository)
+ *
+ * @param fileName The name of the review file, relative to the workspace
+ * @return boolean
+ */
+const isWorkspaceFileName = (fileName: unknown): boolean =>
+  typeof fileName === 'string' &&
+  !!fileName &&
+  !path.isAbsolute(fileName) &&
+  !/^[a-z]:/i.test(fileName) &&
+  !fileName.split(/[\\/]/).includes('..');
+
+/**
+ * Read the stored sessions, the invalid sessions are ignored
+ *
+ * @param content The content of the sessions file
+ * @return ReviewSessionRegistry The sessions, or undefined when the content is not a valid registry
+ */
+export const parseSessionRegistry = (content: string): ReviewSessionRegistry | undefined => {
+  let value: any;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    return undefined;
+  }
+
+  if (!value || typeof value.active !== 'string' || !Array.isArray(value.sessions)) {
+    return undefined;
+  }
+
+  return { active: value.active, sessions: value.sessions.filter(isReviewSession) };
+};
+
+/**
+ * Manage the review sessions of a workspace
+ */
+export class ReviewSessionManager {
+  private _onDidChangeActiveSession: EventEmitter<ReviewSession> = new EventEmitter<ReviewSession>();
+  readonly onDidChangeActiveSession: Event<ReviewSession> = this._onDidChangeActiveSession.event;
+
+  /** The stored sessions (see `load()`) */
+  private registry: ReviewSessionRegistry = { active: defaultSessionId, sessions: [] };
+
+  constructor(private workspaceRoot: string) {
+    this.addDefaultSession();
+  }
+
+  /**
+   * Get the configured name of the review file, without extension
+   */
+  get baseFileName(): string {
+    return (workspace.getConfiguration().get('code-review.filename') as string) || 'code-review';
+  }
+
+  /**
+   * Get all sessions, including the default one
+   */
+  get sessions(): ReviewSession[] {
+    // the review file of the default session follows the configuration
+    this.registry.sessions
+      .filter((session) => session.id === defaultSessionId)
+      .forEach((session) => (session.fileName = this.baseFileName));
+    return this.registry.sessions;
+  }
+
+  /**
+   * Get the session the comments are currently added to
+   */
+  get activeSession(): ReviewSession {
+    const registry = this.registry;
+    const sessions = this.sessions;
+    return sessions.find((session) => session.id === registry.active) ?? sessions[0];
+  }
+
+  /**
+   * Create a new session and activate it
+   *
+   * @param name The name of the session
+   * @param reviewer The reviewer conducting the session
+   * @param targetRef The reviewed branch, tag or commit
+   * @return Promise<ReviewSession>
+   */
+  async create(name: string, reviewer: string, targetRef: string): Promise<ReviewSession> {
+    const registry = this.registry;
+    const session: ReviewSession = {
+      id: uuidv4(),
+      name,
+      reviewer,
+      date: new Date().toISOString(),
+      targetRef,
+      fileName: getSessionFileName(
+        this.baseFileName,
+        name,
+        this.sessions.map((existing) => existing.fileName),
+      ),
+      archived: false,
+    };
+    registry.sessions.push(session);
+    registry.active = session.id;
+
+    await this.persist();
+    this._onDidChangeActiveSession.fire(session);
+    return session;
+  }
+
+  /**
+   * Activate a session
+   *
+   * @param id The identifier of the session
+   */
+  async switch(id: string) {
+    const registry = this.registry;
+    const session = registry.sessions.find((existing) => existing.id === id && !existing.archived);
+    if (!session || registry.active === id) {
+      return;
+    }
+
+    registry.active = id;
+    await this.persist();
+    this._onDidChangeActiveSession.fire(session);
+  }
+
+  /**
+   * Rename a session (its review file is kept)
+   *
+   * @param id The identifier of the session
+   * @param name The new name
+   */
+  async rename(id: string, name: string) {
+    const registry = this.registry;
+    const session = registry.sessions.find((existing) => existing.id === id);
+    if (!session) {
+      return;
+    }
+
+    session.name = name;
+    await this.persist();
+    if (registry.active === id) {
+      this._onDidChangeActiveSession.fire(session);
+    }
+  }
+
+  /**
+   * Archive a session, the default session is activated if the archived one was active
+   *
+   * @param id The identifier of the session
+   */
+  async archive(id: string) {
+    const registry = this.registry;
+    const session = registry.sessions.find((existing) => existing.id === id);
+    if (!session || session.id === defaultSessionId) {
+      return;
+    }
+
+    session.archived = true;
+    const wasActive = registry.active === id;
+    if (wasActive) {
+      registry.active = defaultSessionId;
+    }
+
+    await this.persist();
+    if (wasActive) {
+      this._onDidChangeActiveSession.fire(this.activeSession);
+    }
+  }
+
+  /**
+   * Read the stored sessions
+   */
+  async load() {
+    const content = await readFileContent(toWorkspaceUri(this.registryFilePath));
+    if (content !== undefined) {
+      const registry = parseSessionRegistry(content);
+      if (registry) {
+        this.registry = registry;
+      } else {
+        console.log('Cannot read the review sessions, the defaults are used', this.registryFilePath);
+        this.registry = { active: defaultSessionId, sessions: [] };
+      }
+    }
+
+    this.addDefaultSession();
+  }
+
+  /**
+   * Get the path of the file storing the sessions
+   */
+  private get registryFilePath(): string {
+    return toAbsolutePath(this.workspaceRoot, `${this.baseFileName}.sessions.json`);
+  }
+
+  /**
+   * Make sure that the default session is always available
+   */
+  private addDefaultSession() {
+    if (!this.registry.sessions.some((session) => session.id === defaultSessionId)) {
+      this.registry.sessions.unshift({
+        id: defaultSessionId,
+        name: 'Default',
+        reviewer: '',
+        date: '',
+        targetRef: '',
+        fileName: this.baseFileName,
+        archived: false,
+      });
+    }
+  }
+
+  /**
+   * Store the sessions
+   */
+  private async persist() {
+    // the review file of the default session is not stored (see `code-review.filename`)
+    const registry = {
+      ...this.registry,
+      sessions: this.registry.sessions.map((session) => {
+        if (session.id !== defaultSessionId) {
+          return session;
+        }
+        const { fileName, ...stored } = session;
+        return stored;
+      }),
+    };
+    await writeFileContent(toWorkspaceUri(this.registryFilePath), JSON.stringify(registry, null, 2));
+  }
+}
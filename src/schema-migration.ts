@@ -0,0 +1,165 @@
+import { ReviewFileContent, ReviewRecord } from './interfaces';
+import { CsvStructure } from './model';
+import { unescapeEndOfLineFromCsv } from './utils/workspace-util';
+
+/**
+ * A change of the stored columns
+ */
+export type MigrationStep =
+  /** Rename a column (its values are kept) */
+  | { kind: 'rename'; from: string; to: string }
+  /** Remove a column and its values */
+  | { kind: 'drop'; column: string }
+  /** Convert the values of a column */
+  | { kind: 'transform'; column: string; transform: (value: string, record: ReviewRecord) => string }
+  /** Set the order of the columns: the missing columns are added with their default value, the other ones are dropped */
+  | { kind: 'reorder'; columns: string[] };
+
+/**
+ * The changes to apply to migrate a review file to a version of the schema
+ */
+export interface SchemaMigration {
+  /** The version of the schema after the migration */
+  version: number;
+  description: string;
+  steps: MigrationStep[];
+}
+
+/**
+ * The result of a migration (computed without modifying the review file)
+ */
+export interface MigrationPlan {
+  fromVersion: number;
+  toVersion: number;
+  /** The descriptions of the applied changes */
+  changes: string[];
+  /** The columns not part of the schema: the file must not be migrated, their values would be dropped */
+  unknownColumns: string[];
+  /** The content of the migrated file */
+  content: ReviewFileContent;
+}
+
+/**
+ * The migrations of the schema, in their order
+ *
+ * **Attention!**
+ * Renaming, removing or converting a stored column requires a new migration, along with an increment of `CsvStructure.version`.
+ * The columns appended to the schema do not need a migration: they are added with their default value after the last migration
+ * (see `planSchemaMigration()`).
+ */
+export const schemaMigrations: SchemaMigration[] = [
+  {
+    version: 2,
+    description: 'Store the line breaks of the comments as multiline fields (RFC 4180)',
+    steps: [{ kind: 'transform', column: 'comment', transform: unescapeEndOfLineFromCsv }],
+  },
+];
+
+/**
+ * Apply a migration step
+ *
+ * @param content The content of the review file
+ * @param step The step to apply
+ * @return ReviewFileContent The migrated content (the given content is not modified)
+ */
+export const applyMigrationStep = (content: ReviewFileContent, step: MigrationStep): ReviewFileContent => {
+  switch (step.kind) {
+    case 'rename':
+      if (!content.columns.includes(step.from)) {
+        return content;
+      }
+      return {
+        ...content,
+        columns: content.columns.map((column) => (column === step.from ? step.to : column)),
+        records: content.records.map(({ [step.from]: value, ...record }) => ({ ...record, [step.to]: value })),
+      };
+    case 'drop':
+      return {
+        ...content,
+        columns: content.columns.filter((column) => column !== step.column),
+        records: content.records.map(({ [step.column]: _value, ...record }) => record),
+      };
+    case 'transform':
+      if (!content.columns.includes(step.column)) {
+        return content;
+      }
+      return {
+        ...content,
+        records: content.records.map((record) => ({
+          ...record,
+          [step.column]: step.transform(record[step.column] ?? '', record),
+        })),
+      };
+    case 'reorder':
+      return {
+        ...content,
+        columns: [...step.columns],
+        records: content.records.map((record) => {
+          const reordered: ReviewRecord = {};
+          for (const column of step.columns) {
+            reordered[column] = column in record ? record[column] : CsvStructure.getDefaultValue(column) ?? '';
+          }
+          return reordered;
+        }),
+      };
+  }
+};
+
+/**
+ * Describe a migration step
+ *
+ * @param content The content of the review file before the step
+ * @param step The step
+ * @return string[] The descriptions of the changes, empty if the step changes nothing
+ */
+const describeMigrationStep = (content: ReviewFileContent, step: MigrationStep): string[] => {
+  switch (step.kind) {
+    case 'rename':
+      return content.columns.includes(step.from) ? [`Rename the column '${step.from}' to '${step.to}'`] : [];
+    case 'drop':
+      return content.columns.includes(step.column) ? [`Drop the column '${step.column}'`] : [];
+    case 'transform':
+      // described by the migration itself
+      return [];
+    case 'reorder': {
+      const added = step.columns.filter((column) => !content.columns.includes(column));
+      const dropped = content.columns.filter((column) => !step.columns.includes(column));
+      const kept = content.columns.filter((column) => step.columns.includes(column));
+      const target = step.columns.filter((column) => kept.includes(column));
+      const moved = kept.some((column, index) => column !== target[index]);
+      return [
+        ...added.map((column) => `Add the column '${column}'`),
+        ...dropped.map((column) => `Drop the column '${column}'`),
+        ...(moved ? ['Reorder the columns'] : []),
+      ];
+    }
+  }
+};
+
+/**
+ * Compute the migration of a review file to the current schema (see `CsvStructure.version`)
+ *
+ * @param content The content of the review file
+ * @return MigrationPlan
+ */
+export const planSchemaMigration = (content: ReviewFileContent): MigrationPlan => {
+  const changes: string[] = [];
+  let migrated = content;
+
+  const pending = schemaMigrations.filter((migration) => migration.version > content.version);
+  for (const migration of pending) {
+    changes.push(migration.description);
+    for (const step of migration.steps) {
+      changes.push(...describeMigrationStep(migrated, step));
+      migrated = applyMigrationStep(migrated, step);
+    }
+  }
+
+  // complete the columns added to the current schema
+  const reorder: MigrationStep = { kind: 'reorder', columns: CsvStructure.columns };
+  const unknownColumns = migrated.columns.filter((column) => !reorder.columns.includes(column));
+  changes.push(...describeMigrationStep(migrated, reorder));
+  migrated = { ...applyMigrationStep(migrated, reorder), version: CsvStructure.version };
+
+  return { fromVersion: content.version, toVersion: CsvStructure.version, changes, unknownColumns, content: migrated };
+};
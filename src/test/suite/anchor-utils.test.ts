@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { Range } from 'vscode';
+
+import {
+  fingerprintLines,
+  getRangesFingerprints,
+  hashLines,
+  relocateRange,
+  splitFingerprints,
+} from '../../utils/anchor-utils';
+
+suite('Anchor Utils', () => {
+  const lines = ['import foo;', '', 'function bar() {', '  return 42;', '}', ''];
+
+  suite('fingerprintLines', () => {
+    test('should ignore indentation and whitespace changes', () => {
+      const indented = ['import foo;', '', '  function  bar() {', '      return 42;  ', '  }', ''];
+      assert.strictEqual(fingerprintLines(lines, 2, 4), fingerprintLines(indented, 2, 4));
+    });
+
+    test('should differ for another content', () => {
+      assert.notStrictEqual(fingerprintLines(lines, 2, 4), fingerprintLines(lines, 1, 3));
+    });
+  });
+
+  suite('getRangesFingerprints', () => {
+    test('should join the fingerprints in the order of the start lines', () => {
+      const fingerprints = getRangesFingerprints(lines, [new Range(2, 0, 4, 1), new Range(0, 0, 0, 11)]);
+      assert.deepStrictEqual(splitFingerprints(fingerprints), [
+        fingerprintLines(lines, 0, 0),
+        fingerprintLines(lines, 2, 4),
+      ]);
+    });
+  });
+
+  suite('splitFingerprints', () => {
+    test('should return an empty list when there are no fingerprints', () => {
+      assert.deepStrictEqual(splitFingerprints(''), []);
+      assert.deepStrictEqual(splitFingerprints(undefined), []);
+    });
+  });
+
+  suite('relocateRange', () => {
+    const range = new Range(2, 0, 4, 1);
+    const fingerprint = fingerprintLines(lines, 2, 4);
+
+    test('should keep a range which did not move', () => {
+      assert.strictEqual(relocateRange(hashLines(lines), range, fingerprint), range);
+    });
+
+    test('should move a range to the new location of its lines', () => {
+      const moved = ['// header', '', ...lines];
+      const relocated = relocateRange(hashLines(moved), range, fingerprint);
+      assert.ok(relocated?.isEqual(new Range(4, 0, 6, 1)));
+    });
+
+    test('should prefer the nearest match', () => {
+      const duplicated = [...lines.slice(0, 5), ...lines.slice(2, 5), '// moved', ...lines.slice(2, 5)];
+      const relocated = relocateRange(hashLines(['// header', ...duplicated]), range, fingerprint);
+      assert.ok(relocated?.isEqual(new Range(3, 0, 5, 1)));
+    });
+
+    test('should keep a range whose lines were slightly edited', () => {
+      const edited = ['import foo;', '', 'function bar() {', '  return 43;', '}', ''];
+      assert.strictEqual(relocateRange(hashLines(edited), range, fingerprint), range);
+    });
+
+    test('should move a range whose lines were moved and slightly edited', () => {
+      const edited = ['// header', '', 'import foo;', '', 'function bar(x) {', '  return 42;', '}', ''];
+      const relocated = relocateRange(hashLines(edited), range, fingerprint);
+      assert.ok(relocated?.isEqual(new Range(4, 0, 6, 1)));
+    });
+
+    test('should return undefined when the lines cannot be found', () => {
+      assert.strictEqual(relocateRange(hashLines(['import foo;', 'function baz() {}']), range, fingerprint), undefined);
+    });
+  });
+});
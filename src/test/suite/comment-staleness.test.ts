@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { TextDocument, Uri } from 'vscode';
+
+import { CommentAnchoring } from '../../comment-anchoring';
+import { StaleCommentDetector } from '../../comment-staleness';
+import { CsvEntry } from '../../model';
+import { ReviewCommentService } from '../../review-comment';
+import { getRangesFingerprints } from '../../utils/anchor-utils';
+import { rangesFromStringDefinition } from '../../utils/workspace-util';
+
+suite('Stale Comment Detector', () => {
+  const lines = Array.from({ length: 10 }, (_value, index) => `const line${index + 1} = ${index + 1};`);
+  let repository: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: repository,
+    })
+      .toString()
+      .trim();
+  const commit = (content: string[]) => {
+    fs.writeFileSync(path.join(repository, 'a.ts'), content.join('\n'));
+    git('add', 'a.ts');
+    git('commit', '-q', '-m', 'change');
+    return git('rev-parse', 'HEAD');
+  };
+  const createComment = (id: string, sha: string, line: number) =>
+    ({
+      id,
+      sha,
+      filename: '/a.ts',
+      lines: `${line}:0-${line}:5`,
+      fingerprints: getRangesFingerprints(lines, rangesFromStringDefinition(`${line}:0-${line}:5`)),
+      reviewedLines: '',
+    } as CsvEntry);
+
+  setup(() => {
+    repository = fs.mkdtempSync(path.join(tmpdir(), 'code-review-'));
+    git('init', '-q');
+  });
+
+  teardown(() => {
+    fs.rmdirSync(repository, { recursive: true }); // cleanup created files
+  });
+
+  test('should check the changes of the reviewed lines of a relocated comment', async () => {
+    const sha = commit(lines);
+    const unchanged = createComment('1', sha, 5);
+    const changed = createComment('2', sha, 8);
+
+    // lines inserted above the comments and the line of the second comment edited
+    const content = ['// header', '// header', '// header', ...lines];
+    content[10] = 'const line8 = 42;';
+    commit(content);
+
+    let relocated: CsvEntry[] = [];
+    const service = ({
+      getComments: async () => [unchanged, changed],
+      updateAnchors: async (comments: CsvEntry[]) => {
+        relocated = comments;
+      },
+    } as unknown) as ReviewCommentService;
+    const document = ({
+      uri: Uri.file(path.join(repository, 'a.ts')),
+      getText: () => content.join('\n'),
+    } as unknown) as TextDocument;
+    const anchoring = new CommentAnchoring(service, repository);
+    await anchoring.reanchor(document);
+    anchoring.dispose();
+    assert.deepStrictEqual(
+      relocated.map((entry) => [entry.lines, entry.reviewedLines]),
+      [
+        ['8:0-8:5', '5:0-5:5'],
+        ['11:0-11:5', '8:0-8:5'],
+      ],
+    );
+
+    const detector = new StaleCommentDetector(repository);
+    await detector.refresh(relocated);
+    assert.strictEqual(detector.isStale(unchanged), false);
+    assert.strictEqual(detector.isStale(changed), true);
+  });
+});
@@ -0,0 +1,195 @@
+import * as assert from 'assert';
+import { Disposable, Uri, workspace } from 'vscode';
+
+import { ConflictResolution, createCommentStore, StorageFormat, StoreConflict } from '../../comment-store';
+import { CsvEntry, CsvStructure } from '../../model';
+import { deleteFile, readFileContent, writeFileContent } from '../../utils/fs-utils';
+import { MemFS } from './memfs';
+
+const createComment = (id: string, comment: string): CsvEntry =>
+  ({
+    id,
+    comment,
+    title: 'a "title"',
+    filename: '/a.js',
+    lines: '1:0-2:0',
+    priority: 1,
+    status: 'open',
+    orphaned: false,
+  } as CsvEntry);
+
+suite('Comment Store', () => {
+  let registration: Disposable;
+
+  suiteSetup(() => {
+    registration = workspace.registerFileSystemProvider(MemFS.scheme, new MemFS());
+  });
+
+  suiteTeardown(() => {
+    registration.dispose();
+  });
+
+  for (const format of [StorageFormat.csv, StorageFormat.jsonl]) {
+    suite(format, () => {
+      const uri = Uri.parse(`${MemFS.scheme}:/code-review.${format}`);
+      const store = createCommentStore(format, uri);
+
+      setup(async () => {
+        await store.create();
+      });
+
+      teardown(async () => {
+        await deleteFile(uri);
+      });
+
+      test('should read the added comments', async () => {
+        await store.add(createComment('1', 'first line\nsecond line'));
+        await store.add(createComment('2', 'another, "quoted" comment'));
+
+        const comments = await store.load();
+        assert.deepStrictEqual(
+          comments.map((comment) => [comment.id, comment.comment, comment.title]),
+          [
+            ['1', 'first line\nsecond line', 'a "title"'],
+            ['2', 'another, "quoted" comment', 'a "title"'],
+          ],
+        );
+      });
+
+      test('should update a comment by id', async () => {
+        await store.add(createComment('1', 'first'));
+        await store.add(createComment('2', 'second'));
+
+        assert.strictEqual(await store.update([createComment('2', 'modified')]), true);
+        assert.deepStrictEqual(
+          (await store.load()).map((comment) => comment.comment),
+          ['first', 'modified'],
+        );
+        assert.strictEqual(await store.update([createComment('3', 'unknown')]), false);
+      });
+
+      test('should delete a comment by id', async () => {
+        await store.add(createComment('1', 'same'));
+        await store.add(createComment('2', 'same'));
+
+        assert.strictEqual(await store.delete('1'), true);
+        assert.deepStrictEqual(
+          (await store.load()).map((comment) => comment.id),
+          ['2'],
+        );
+        assert.strictEqual(await store.delete('1'), false);
+      });
+
+      test('should replace all comments', async () => {
+        await store.add(createComment('1', 'first'));
+        await store.save([createComment('2', 'second')]);
+
+        assert.deepStrictEqual(
+          (await store.load()).map((comment) => comment.id),
+          ['2'],
+        );
+      });
+    });
+  }
+
+  suite('modifications made outside of the store', () => {
+    const uri = Uri.parse(`${MemFS.scheme}:/conflicts.csv`);
+    let conflicts: StoreConflict[];
+    let resolution: ConflictResolution;
+    const store = createCommentStore(StorageFormat.csv, uri, async (conflict) => {
+      conflicts.push(conflict);
+      return resolution;
+    });
+    // another window writing the same review file
+    const otherStore = createCommentStore(StorageFormat.csv, uri);
+
+    setup(async () => {
+      conflicts = [];
+      resolution = ConflictResolution.overwrite;
+      await otherStore.save([createComment('1', 'first'), createComment('2', 'second')]);
+      await store.load();
+    });
+
+    teardown(async () => {
+      await deleteFile(uri);
+    });
+
+    test('should merge the changes of other comments', async () => {
+      await otherStore.update([createComment('1', 'modified elsewhere')]);
+      await otherStore.add(createComment('3', 'added elsewhere'));
+
+      assert.strictEqual(await store.update([createComment('2', 'modified')]), true);
+      assert.strictEqual(conflicts.length, 0);
+      assert.deepStrictEqual(
+        (await store.load()).map((comment) => comment.comment),
+        ['modified elsewhere', 'modified', 'added elsewhere'],
+      );
+    });
+
+    test('should ask before overwriting a modified comment', async () => {
+      await otherStore.update([createComment('1', 'modified elsewhere')]);
+
+      assert.strictEqual(await store.update([createComment('1', 'modified')]), true);
+      assert.strictEqual(conflicts.length, 1);
+      assert.ok(conflicts[0].content.includes('"modified"'));
+      assert.deepStrictEqual(
+        (await store.load()).map((comment) => comment.comment),
+        ['modified', 'second'],
+      );
+    });
+
+    test('should keep a modified comment when the changes are discarded', async () => {
+      resolution = ConflictResolution.discard;
+      await otherStore.update([createComment('1', 'modified elsewhere')]);
+
+      assert.strictEqual(await store.delete('1'), false);
+      assert.strictEqual(await store.update([createComment('1', 'modified'), createComment('2', 'modified')]), false);
+      assert.strictEqual(conflicts.length, 2);
+      assert.deepStrictEqual(
+        (await store.load()).map((comment) => comment.comment),
+        ['modified elsewhere', 'modified'],
+      );
+    });
+
+    test('should ask before replacing a modified file', async () => {
+      resolution = ConflictResolution.discard;
+      await otherStore.add(createComment('3', 'added elsewhere'));
+
+      assert.strictEqual(await store.save([createComment('4', 'replaced')]), false);
+      assert.strictEqual(conflicts.length, 1);
+      assert.strictEqual((await store.load()).length, 3);
+    });
+
+    test('should not ask once the modifications are read', async () => {
+      await otherStore.update([createComment('1', 'modified elsewhere')]);
+      await store.load();
+
+      assert.strictEqual(await store.delete('1'), true);
+      assert.strictEqual(conflicts.length, 0);
+    });
+  });
+
+  test('should start CSV files with the version of their format and keep their line breaks', async () => {
+    const uri = Uri.parse(`${MemFS.scheme}:/lines.csv`);
+    const store = createCommentStore(StorageFormat.csv, uri);
+    await writeFileContent(uri, `${CsvStructure.versionLine}\r\n${CsvStructure.headerLine}\r\n`);
+    await store.add(createComment('1', 'first\nline'));
+
+    const content = (await readFileContent(uri)) ?? '';
+    assert.ok(content.startsWith(`${CsvStructure.versionLine}\r\n${CsvStructure.headerLine}\r\n`));
+    assert.ok(content.endsWith('\r\n'));
+    assert.strictEqual((await store.load())[0].comment, 'first\nline');
+    await deleteFile(uri);
+  });
+
+  test('should store one comment per line as JSON lines', async () => {
+    const uri = Uri.parse(`${MemFS.scheme}:/lines.jsonl`);
+    const store = createCommentStore(StorageFormat.jsonl, uri);
+    await store.save([createComment('1', 'first\nline'), createComment('2', 'second')]);
+
+    const lines = ((await readFileContent(uri)) ?? '').split(/\r?\n/).filter((line) => line);
+    assert.strictEqual(lines.length, 2);
+    assert.deepStrictEqual(Object.keys(JSON.parse(lines[0])), CsvStructure.headerLine.split(CsvStructure.separator));
+    await deleteFile(uri);
+  });
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+
+import { detectLineBreak, formatCsvField, formatCsvRow, parseCsv } from '../../utils/csv-utils';
+
+suite('CSV Utils', () => {
+  suite('formatCsvField', () => {
+    test('should quote the value and escape its double quotes', () => {
+      assert.strictEqual(formatCsvField('a "quoted", value'), '"a ""quoted"", value"');
+    });
+
+    test('should keep the line breaks', () => {
+      assert.strictEqual(formatCsvField('first\r\nsecond\nthird'), '"first\r\nsecond\nthird"');
+    });
+
+    test('should write empty fields for missing values', () => {
+      assert.strictEqual(formatCsvField(undefined), '""');
+      assert.strictEqual(formatCsvField(null), '""');
+      assert.strictEqual(formatCsvField(0), '"0"');
+    });
+  });
+
+  suite('formatCsvRow', () => {
+    test('should join the quoted fields', () => {
+      assert.strictEqual(formatCsvRow(['a', 'b,c', '']), '"a","b,c",""');
+    });
+  });
+
+  suite('detectLineBreak', () => {
+    test('should return the first line break of the content', () => {
+      assert.strictEqual(detectLineBreak('a\r\nb\nc'), '\r\n');
+      assert.strictEqual(detectLineBreak('a\nb\r\nc'), '\n');
+    });
+  });
+
+  suite('parseCsv', () => {
+    test('should read quoted and unquoted fields', () => {
+      assert.deepStrictEqual(parseCsv('a,b,c\n"1","2,3",4\n'), [
+        ['a', 'b', 'c'],
+        ['1', '2,3', '4'],
+      ]);
+    });
+
+    test('should read escaped double quotes', () => {
+      assert.deepStrictEqual(parseCsv('"a ""quoted"" value"'), [['a "quoted" value']]);
+    });
+
+    test('should read line breaks in quoted fields', () => {
+      assert.deepStrictEqual(parseCsv('"first\r\nsecond","third\nfourth"\r\n"next"'), [
+        ['first\r\nsecond', 'third\nfourth'],
+        ['next'],
+      ]);
+    });
+
+    test('should accept CRLF and LF line breaks and ignore empty lines', () => {
+      assert.deepStrictEqual(parseCsv('a,b\r\n\r\n1,2\n\n3,4'), [
+        ['a', 'b'],
+        ['1', '2'],
+        ['3', '4'],
+      ]);
+    });
+
+    test('should keep rows of empty fields', () => {
+      assert.deepStrictEqual(parseCsv('a\n""\n'), [['a'], ['']]);
+    });
+
+    test('should return undefined when a quoted field is not terminated', () => {
+      assert.strictEqual(parseCsv('"a,b\n'), undefined);
+    });
+
+    test('should read back the written rows', () => {
+      const values = ['a "quoted", value', 'first\nsecond', '', '\\n is not a line break'];
+      assert.deepStrictEqual(parseCsv(`${formatCsvRow(values)}\r\n`), [values]);
+    });
+  });
+});
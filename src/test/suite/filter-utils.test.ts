@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+
+import { CommentStatus, createCommentFromObject } from '../../model';
+import { createEmptyFilter, describeFilter, isFilterActive, matchesCommentFilter } from '../../utils/filter-utils';
+
+suite('Filter Utils', () => {
+  const entry = {
+    ...createCommentFromObject(JSON.stringify({ comment: 'Escape the user input' })),
+    title: 'Possible injection',
+    category: 'Security',
+    priority: 3,
+    filename: '/src/app/app.component.ts',
+  };
+
+  suite('isFilterActive', () => {
+    test('should not be active for an empty filter', () => {
+      assert.strictEqual(isFilterActive(undefined), false);
+      assert.strictEqual(isFilterActive(createEmptyFilter()), false);
+      assert.strictEqual(isFilterActive({ ...createEmptyFilter(), text: '  ' }), false);
+    });
+
+    test('should be active as soon as one criterion is set', () => {
+      assert.strictEqual(isFilterActive({ ...createEmptyFilter(), priorities: [0] }), true);
+      assert.strictEqual(isFilterActive({ ...createEmptyFilter(), text: 'injection' }), true);
+    });
+  });
+
+  suite('matchesCommentFilter', () => {
+    test('should accept all comments without filter', () => {
+      assert.strictEqual(matchesCommentFilter(entry, undefined), true);
+      assert.strictEqual(matchesCommentFilter(entry, createEmptyFilter()), true);
+    });
+
+    test('should accept one of the selected values of each criterion', () => {
+      const filter = { ...createEmptyFilter(), priorities: [2, 3], categories: ['Security'] };
+      assert.strictEqual(matchesCommentFilter(entry, filter), true);
+      assert.strictEqual(matchesCommentFilter({ ...entry, priority: 1 }, filter), false);
+      assert.strictEqual(matchesCommentFilter({ ...entry, category: 'Complexity' }, filter), false);
+    });
+
+    test('should treat comments without status as open', () => {
+      const filter = { ...createEmptyFilter(), statuses: [CommentStatus.open] };
+      assert.strictEqual(matchesCommentFilter({ ...entry, status: '' as CommentStatus }, filter), true);
+      assert.strictEqual(matchesCommentFilter({ ...entry, status: CommentStatus.resolved }, filter), false);
+    });
+
+    test('should search the text case insensitive', () => {
+      assert.strictEqual(matchesCommentFilter(entry, { ...createEmptyFilter(), text: 'INJECTION' }), true);
+      assert.strictEqual(matchesCommentFilter(entry, { ...createEmptyFilter(), text: 'app.component' }), true);
+      assert.strictEqual(matchesCommentFilter(entry, { ...createEmptyFilter(), text: 'performance' }), false);
+    });
+  });
+
+  suite('describeFilter', () => {
+    test('should list all criteria', () => {
+      const filter = { priorities: [3], categories: ['Security'], statuses: [CommentStatus.open], text: 'input ' };
+      assert.strictEqual(
+        describeFilter(filter, (priority) => `prio ${priority}`),
+        'prio 3, Security, open, "input"',
+      );
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import {
+  getGitChangedFiles,
+  getGitHead,
+  isCommitSha,
+  isGitRef,
+  isLineRangeChanged,
+  parseDiffHunks,
+} from '../../utils/git-utils';
+
+suite('Git Utils', () => {
+  suite('isCommitSha', () => {
+    test('should accept full and abbreviated commit hashes', () => {
+      assert.ok(isCommitSha('4b825dc642cb6eb9a060e54bf8d69288fbee4904'));
+      assert.ok(isCommitSha('4b825dc'));
+    });
+
+    test('should reject any other value', () => {
+      assert.ok(!isCommitSha(''));
+      assert.ok(!isCommitSha('4b825d'));
+      assert.ok(!isCommitSha('HEAD'));
+      assert.ok(!isCommitSha('--output=/tmp/x'));
+      assert.ok(!isCommitSha('4b825dc; rm -rf ~'));
+      assert.ok(!isCommitSha('$(touch x)'));
+    });
+  });
+
+  suite('isGitRef', () => {
+    test('should reject options and empty values', () => {
+      assert.strictEqual(isGitRef('.', ''), false);
+      assert.strictEqual(isGitRef('.', '--output=/tmp/x'), false);
+      assert.strictEqual(isGitRef('.', '-p'), false);
+    });
+
+    test('should not compute the changed files since an invalid ref', () => {
+      assert.strictEqual(getGitChangedFiles('.', '--output=/tmp/x'), undefined);
+    });
+  });
+
+  suite('getGitHead', () => {
+    test('should return an empty string outside of a git repository', async () => {
+      assert.strictEqual(await getGitHead(path.parse(process.cwd()).root), '');
+    });
+  });
+
+  suite('parseDiffHunks', () => {
+    test('should extract the changed lines of the old version', () => {
+      const diff = [
+        'diff --git a/src/a.ts b/src/a.ts',
+        'index 3b18e51..a0b5e4f 100644',
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -3 +3 @@ export class A {',
+        '-  foo = 1;',
+        '+  foo = 2;',
+        '@@ -10,2 +10,0 @@ export class A {',
+        '-  bar() {}',
+        '-  baz() {}',
+        '@@ -20,0 +19,3 @@',
+        '+  qux() {}',
+      ].join('\n');
+
+      assert.deepStrictEqual(parseDiffHunks(diff), [
+        { start: 3, count: 1 },
+        { start: 10, count: 2 },
+        { start: 20, count: 0 },
+      ]);
+    });
+
+    test('should return no hunks for an empty diff', () => {
+      assert.deepStrictEqual(parseDiffHunks(''), []);
+    });
+  });
+
+  suite('isLineRangeChanged', () => {
+    const hunks = [
+      { start: 3, count: 1 },
+      { start: 10, count: 2 },
+      { start: 20, count: 0 },
+    ];
+
+    test('should detect changed lines inside the range', () => {
+      assert.strictEqual(isLineRangeChanged(hunks, 1, 3), true);
+      assert.strictEqual(isLineRangeChanged(hunks, 11, 15), true);
+    });
+
+    test('should detect lines inserted inside the range', () => {
+      assert.strictEqual(isLineRangeChanged(hunks, 18, 22), true);
+    });
+
+    test('should ignore changes outside of the range', () => {
+      assert.strictEqual(isLineRangeChanged(hunks, 4, 9), false);
+      assert.strictEqual(isLineRangeChanged(hunks, 12, 20), false);
+      assert.strictEqual(isLineRangeChanged([], 1, 100), false);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  Disposable,
+  Event,
+  EventEmitter,
+  FileChangeEvent,
+  FileStat,
+  FileSystemError,
+  FileSystemProvider,
+  FileType,
+  Uri,
+} from 'vscode';
+
+/**
+ * A flat in-memory file system to exercise the virtual workspaces support in the tests
+ */
+export class MemFS implements FileSystemProvider {
+  static readonly scheme = 'memfs';
+
+  private files = new Map<string, { stat: FileStat; content: Uint8Array }>();
+  private _onDidChangeFile = new EventEmitter<FileChangeEvent[]>();
+  readonly onDidChangeFile: Event<FileChangeEvent[]> = this._onDidChangeFile.event;
+
+  watch(): Disposable {
+    return new Disposable(() => {});
+  }
+
+  stat(uri: Uri): FileStat {
+    if (uri.path === '/') {
+      return { type: FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+    }
+    return this.lookup(uri).stat;
+  }
+
+  readDirectory(): [string, FileType][] {
+    return [...this.files.keys()].map((name) => [name.substring(1), FileType.File]);
+  }
+
+  createDirectory() {}
+
+  readFile(uri: Uri): Uint8Array {
+    return this.lookup(uri).content;
+  }
+
+  writeFile(uri: Uri, content: Uint8Array) {
+    const now = Date.now();
+    this.files.set(uri.path, { stat: { type: FileType.File, ctime: now, mtime: now, size: content.length }, content });
+  }
+
+  delete(uri: Uri) {
+    this.lookup(uri);
+    this.files.delete(uri.path);
+  }
+
+  rename(oldUri: Uri, newUri: Uri) {
+    this.files.set(newUri.path, this.lookup(oldUri));
+    this.files.delete(oldUri.path);
+  }
+
+  private lookup(uri: Uri) {
+    const file = this.files.get(uri.path);
+    if (!file) {
+      throw FileSystemError.FileNotFound(uri);
+    }
+    return file;
+  }
+}
@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import { Disposable, Uri, workspace } from 'vscode';
+
+import { ConflictResolution, createCommentStore, StorageFormat, StoreConflict } from '../../comment-store';
+import { FileGenerator } from '../../file-generator';
+import { CsvEntry } from '../../model';
+import { ReviewCommentService } from '../../review-comment';
+import { deleteFile } from '../../utils/fs-utils';
+import { MemFS } from './memfs';
+
+const comment = {
+  id: '1',
+  comment: 'first',
+  title: 'a title',
+  filename: '/a.js',
+  lines: '1:0-2:0',
+  fingerprints: '0:abc123',
+  author: 'Jane',
+  priority: 1,
+  status: 'open',
+  orphaned: false,
+} as CsvEntry;
+
+suite('Review Comment Service', () => {
+  const uri = Uri.parse(`${MemFS.scheme}:/code-review.csv`);
+  let registration: Disposable;
+  let conflicts: StoreConflict[] = [];
+  const store = createCommentStore(StorageFormat.csv, uri, async (conflict) => {
+    conflicts.push(conflict);
+    return ConflictResolution.discard;
+  });
+  // only the store of the active session is used to edit the comments
+  const generator = ({ store, reviewFilePath: uri.fsPath, reviewFileUri: uri } as unknown) as FileGenerator;
+  const service = new ReviewCommentService(generator, '/');
+
+  suiteSetup(() => {
+    registration = workspace.registerFileSystemProvider(MemFS.scheme, new MemFS());
+  });
+
+  suiteTeardown(() => {
+    registration.dispose();
+  });
+
+  setup(async () => {
+    conflicts = [];
+    await store.create();
+    await store.add(comment);
+  });
+
+  teardown(async () => {
+    await deleteFile(uri);
+  });
+
+  test('should detect the modifications of the review file made while a comment is edited', async () => {
+    await service.startEdit(comment.id);
+    // modified by another window, then read again to refresh the views
+    await createCommentStore(StorageFormat.csv, uri).update([{ ...comment, comment: 'theirs' }]);
+    await service.getComments();
+
+    await service.updateComment({ ...comment, comment: 'mine' });
+    service.endEdit(comment.id);
+
+    assert.strictEqual(conflicts.length, 1);
+    assert.deepStrictEqual(
+      (await store.load()).map((entry) => entry.comment),
+      ['theirs'],
+    );
+  });
+
+  test('should not detect the own modifications of an edited comment as conflicts', async () => {
+    await service.startEdit(comment.id);
+    await service.updateComment({ ...comment, replies: '[]' });
+    await service.updateComment({ ...comment, replies: '[]', comment: 'second' });
+    service.endEdit(comment.id);
+
+    assert.strictEqual(conflicts.length, 0);
+    assert.deepStrictEqual(
+      (await store.load()).map((entry) => entry.comment),
+      ['second'],
+    );
+  });
+
+  test('should keep the relocation of an edited comment when it is stored', async () => {
+    await service.startEdit(comment.id);
+    // the commented file is saved while the edit panel is open
+    const [stored] = await service.getComments();
+    await service.updateAnchors([{ ...stored, lines: '3:0-4:0', reviewedLines: '1:0-2:0' }]);
+
+    await service.updateComment({ ...comment, comment: 'mine' });
+    service.endEdit(comment.id);
+
+    assert.strictEqual(conflicts.length, 0);
+    assert.deepStrictEqual(
+      (await store.load()).map((entry) => [entry.comment, entry.lines]),
+      [['mine', '3:0-4:0']],
+    );
+  });
+
+  test('should detect the modifications of the review file made while a comment is deleted', async () => {
+    await service.startEdit(comment.id);
+    await createCommentStore(StorageFormat.csv, uri).update([{ ...comment, comment: 'theirs' }]);
+    await service.getComments();
+
+    await service.deleteComment(comment.id);
+
+    assert.strictEqual(conflicts.length, 1);
+    assert.strictEqual((await store.load()).length, 1);
+  });
+});
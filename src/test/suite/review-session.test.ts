@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+
+import { getSessionFileName, parseSessionRegistry } from '../../review-session';
+
+suite('Review Session', () => {
+  suite('getSessionFileName', () => {
+    test('should append the slug of the session name', () => {
+      assert.strictEqual(getSessionFileName('code-review', 'Security Audit #2', []), 'code-review-security-audit-2');
+      assert.strictEqual(getSessionFileName('.vscode/review', 'v2.0', []), '.vscode/review-v2-0');
+    });
+
+    test('should fall back to a generic name when the name has no usable character', () => {
+      assert.strictEqual(getSessionFileName('code-review', '***', []), 'code-review-session');
+    });
+
+    test('should not reuse the file of another session', () => {
+      const existing = ['code-review', 'code-review-audit', 'code-review-audit-2'];
+      assert.strictEqual(getSessionFileName('code-review', 'Audit', existing), 'code-review-audit-3');
+    });
+  });
+
+  suite('parseSessionRegistry', () => {
+    const audit = {
+      id: 'a1',
+      name: 'Audit',
+      reviewer: 'Jane',
+      date: '2024-01-01T00:00:00.000Z',
+      targetRef: 'main',
+      fileName: 'code-review-audit',
+      archived: false,
+    };
+
+    test('should read the valid sessions', () => {
+      const defaultSession = { id: 'default', name: 'Default', reviewer: '', date: '', targetRef: '', archived: false };
+      assert.deepStrictEqual(
+        parseSessionRegistry(JSON.stringify({ active: 'a1', sessions: [defaultSession, audit] })),
+        {
+          active: 'a1',
+          sessions: [defaultSession, audit],
+        },
+      );
+    });
+
+    test('should ignore the invalid sessions', () => {
+      const content = JSON.stringify({ active: 'a1', sessions: [audit, { ...audit, fileName: 42 }, null, 'b2'] });
+      assert.deepStrictEqual(parseSessionRegistry(content)?.sessions, [audit]);
+    });
+
+    test('should ignore the sessions whose review file is outside the workspace', () => {
+      const nested = { ...audit, id: 'a2', fileName: '.vscode/code-review-audit' };
+      const outside = ['../../x', '.vscode/../../x', '..\\x', '/etc/x', 'C:\\x'].map((fileName) => ({
+        ...audit,
+        fileName,
+      }));
+      const content = JSON.stringify({ active: 'a1', sessions: [audit, nested, ...outside] });
+      assert.deepStrictEqual(parseSessionRegistry(content)?.sessions, [audit, nested]);
+    });
+
+    test('should reject invalid registries', () => {
+      assert.strictEqual(parseSessionRegistry('{'), undefined);
+      assert.strictEqual(parseSessionRegistry('null'), undefined);
+      assert.strictEqual(parseSessionRegistry('[]'), undefined);
+      assert.strictEqual(parseSessionRegistry(JSON.stringify({ active: 'a1', sessions: {} })), undefined);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+
+import { ReviewFileContent, ReviewRecord } from '../../interfaces';
+import { CsvStructure } from '../../model';
+import { applyMigrationStep, planSchemaMigration, schemaMigrations } from '../../schema-migration';
+
+const createContent = (columns: string[], ...rows: string[][]): ReviewFileContent => ({
+  version: 1,
+  columns,
+  records: rows.map((row) => {
+    const record: ReviewRecord = {};
+    columns.forEach((column, index) => (record[column] = row[index]));
+    return record;
+  }),
+});
+
+suite('Schema Migration', () => {
+  suite('applyMigrationStep', () => {
+    const content = createContent(['a', 'b'], ['1', '2'], ['3', '4']);
+
+    test('should rename a column and keep its values', () => {
+      const result = applyMigrationStep(content, { kind: 'rename', from: 'a', to: 'c' });
+      assert.deepStrictEqual(result.columns, ['c', 'b']);
+      assert.deepStrictEqual(result.records, [
+        { b: '2', c: '1' },
+        { b: '4', c: '3' },
+      ]);
+      assert.deepStrictEqual(content.columns, ['a', 'b']);
+    });
+
+    test('should drop a column and its values', () => {
+      const result = applyMigrationStep(content, { kind: 'drop', column: 'a' });
+      assert.deepStrictEqual(result.columns, ['b']);
+      assert.deepStrictEqual(result.records, [{ b: '2' }, { b: '4' }]);
+    });
+
+    test('should convert the values of a column', () => {
+      const result = applyMigrationStep(content, {
+        kind: 'transform',
+        column: 'b',
+        transform: (value, record) => `${record.a}+${value}`,
+      });
+      assert.deepStrictEqual(
+        result.records.map((record) => record.b),
+        ['1+2', '3+4'],
+      );
+    });
+
+    test('should ignore missing columns', () => {
+      assert.strictEqual(applyMigrationStep(content, { kind: 'rename', from: 'x', to: 'y' }), content);
+      assert.strictEqual(applyMigrationStep(content, { kind: 'transform', column: 'x', transform: () => '' }), content);
+    });
+
+    test('should reorder, add and drop columns', () => {
+      const result = applyMigrationStep(content, { kind: 'reorder', columns: ['b', 'status'] });
+      assert.deepStrictEqual(result.columns, ['b', 'status']);
+      assert.deepStrictEqual(result.records[0], { b: '2', status: CsvStructure.getDefaultValue('status') });
+    });
+  });
+
+  suite('planSchemaMigration', () => {
+    test('should end with the current version of the schema', () => {
+      assert.strictEqual(schemaMigrations[schemaMigrations.length - 1].version, CsvStructure.version);
+    });
+
+    test('should migrate a file of the first version', () => {
+      const content = createContent(['sha', 'filename', 'comment'], ['abc', '/a.js', 'first\\nsecond']);
+      const plan = planSchemaMigration(content);
+
+      assert.strictEqual(plan.fromVersion, 1);
+      assert.strictEqual(plan.toVersion, CsvStructure.version);
+      assert.strictEqual(plan.content.version, CsvStructure.version);
+      assert.deepStrictEqual(plan.content.columns, CsvStructure.columns);
+      assert.strictEqual(plan.content.records[0].comment, 'first\nsecond');
+      assert.strictEqual(plan.content.records[0].status, CsvStructure.getDefaultValue('status'));
+      assert.ok(plan.changes.includes(schemaMigrations[0].description));
+      assert.ok(plan.changes.includes("Add the column 'status'"));
+    });
+
+    test('should only complete the columns of a file of the current version', () => {
+      const columns = CsvStructure.columns.filter((column) => column !== 'status');
+      const content = {
+        ...createContent(
+          columns,
+          columns.map(() => 'first\\nsecond'),
+        ),
+        version: CsvStructure.version,
+      };
+      const plan = planSchemaMigration(content);
+
+      assert.deepStrictEqual(plan.changes, ["Add the column 'status'"]);
+      assert.strictEqual(plan.content.records[0].comment, 'first\\nsecond');
+    });
+
+    test('should describe the moved and dropped columns', () => {
+      const columns = [...CsvStructure.columns].reverse().concat('unknown');
+      const content = { ...createContent(columns), version: CsvStructure.version };
+
+      assert.deepStrictEqual(planSchemaMigration(content).changes, [
+        "Drop the column 'unknown'",
+        'Reorder the columns',
+      ]);
+    });
+
+    test('should report the columns not part of the schema', () => {
+      const content = createContent(['sha', 'comment', 'custom'], ['abc', 'a comment', 'a value']);
+      assert.deepStrictEqual(planSchemaMigration(content).unknownColumns, ['custom']);
+      assert.deepStrictEqual(planSchemaMigration(createContent(['sha', 'comment'])).unknownColumns, []);
+    });
+  });
+});
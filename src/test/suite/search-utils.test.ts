@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+
+import { createCommentFromObject } from '../../model';
+import { fuzzyMatch, matchesSearchQuery, parseSearchQuery } from '../../utils/search-utils';
+
+suite('Search Utils', () => {
+  suite('parseSearchQuery', () => {
+    test('should separate the filters from the searched words', () => {
+      const query = parseSearchQuery('cat:Arch  split PRIO:high file:src/app method');
+      assert.deepStrictEqual(query.words, ['split', 'method']);
+      assert.deepStrictEqual(query.categories, ['arch']);
+      assert.deepStrictEqual(query.priorities, ['high']);
+      assert.deepStrictEqual(query.files, ['src/app']);
+    });
+
+    test('should return an empty query for an empty input', () => {
+      assert.deepStrictEqual(parseSearchQuery('  '), { words: [], categories: [], priorities: [], files: [] });
+    });
+  });
+
+  suite('fuzzyMatch', () => {
+    test('should match characters in the same order', () => {
+      assert.strictEqual(fuzzyMatch('cmplx', 'Method too complex'), true);
+      assert.strictEqual(fuzzyMatch('METHOD', 'method too complex'), true);
+      assert.strictEqual(fuzzyMatch('', 'anything'), true);
+    });
+
+    test('should not match characters in another order', () => {
+      assert.strictEqual(fuzzyMatch('xelpmoc', 'Method too complex'), false);
+      assert.strictEqual(fuzzyMatch('z', 'Method too complex'), false);
+    });
+  });
+
+  suite('matchesSearchQuery', () => {
+    const entry = {
+      ...createCommentFromObject(JSON.stringify({ comment: 'Split method into smaller functions' })),
+      title: 'Method too complex',
+      category: 'Architecture',
+      priority: 3,
+      filename: '/src/app/app.component.ts',
+      additional: 'see https://example.com',
+    };
+
+    test('should match the words in title, comment and additional information', () => {
+      assert.strictEqual(matchesSearchQuery(entry, parseSearchQuery('cmplx smaller'), 'high'), true);
+      assert.strictEqual(matchesSearchQuery(entry, parseSearchQuery('example'), 'high'), true);
+      assert.strictEqual(matchesSearchQuery(entry, parseSearchQuery('performance'), 'high'), false);
+    });
+
+    test('should apply the filters', () => {
+      assert.strictEqual(matchesSearchQuery(entry, parseSearchQuery('cat:arch prio:hi file:app/'), 'high'), true);
+      assert.strictEqual(matchesSearchQuery(entry, parseSearchQuery('prio:3'), 'high'), true);
+      assert.strictEqual(matchesSearchQuery(entry, parseSearchQuery('prio:low'), 'high'), false);
+      assert.strictEqual(matchesSearchQuery(entry, parseSearchQuery('cat:perf'), 'high'), false);
+      assert.strictEqual(matchesSearchQuery(entry, parseSearchQuery('file:test/'), 'high'), false);
+    });
+  });
+});
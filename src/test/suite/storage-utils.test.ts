@@ -0,0 +1,140 @@
+import * as assert from 'assert';
+import { EOL } from 'os';
+import { Disposable, Uri, workspace } from 'vscode';
+
+import { deleteFile, fileExists, readFileContent, writeFileContent } from '../../utils/fs-utils';
+import {
+  formatCsvFileContent,
+  getCsvFileHeader,
+  getCsvFileLinesAsArray,
+  parseCsvEntries,
+  parseCsvFileContent,
+} from '../../utils/storage-utils';
+import { CsvStructure } from '../../model';
+import { ReviewFileContent } from '../../interfaces';
+import { MemFS } from './memfs';
+
+suite('Storage Utils', () => {
+  let registration: Disposable;
+  const reviewFile = Uri.parse(`${MemFS.scheme}:/code-review.csv`);
+
+  suiteSetup(() => {
+    registration = workspace.registerFileSystemProvider(MemFS.scheme, new MemFS());
+  });
+
+  suiteTeardown(() => {
+    registration.dispose();
+  });
+
+  teardown(async () => {
+    await deleteFile(reviewFile);
+  });
+
+  suite('files of a virtual file system', () => {
+    test('should write and read the content of a file', async () => {
+      assert.strictEqual(await fileExists(reviewFile), false);
+      assert.strictEqual(await writeFileContent(reviewFile, 'foo\nbar'), true);
+      assert.strictEqual(await fileExists(reviewFile), true);
+      assert.strictEqual(await readFileContent(reviewFile), 'foo\nbar');
+    });
+
+    test('should replace the content without leaving a temporary file', async () => {
+      await writeFileContent(reviewFile, 'foo');
+      assert.strictEqual(await writeFileContent(reviewFile, 'bar'), true);
+      assert.strictEqual(await readFileContent(reviewFile), 'bar');
+      assert.deepStrictEqual(
+        (await workspace.fs.readDirectory(Uri.parse(`${MemFS.scheme}:/`))).map(([name]) => name),
+        ['code-review.csv'],
+      );
+    });
+
+    test('should return undefined when the file cannot be read', async () => {
+      assert.strictEqual(await readFileContent(reviewFile), undefined);
+    });
+
+    test('should delete a file', async () => {
+      await writeFileContent(reviewFile, 'foo');
+      await deleteFile(reviewFile);
+      assert.strictEqual(await fileExists(reviewFile), false);
+    });
+  });
+
+  suite('CSV review file of a virtual file system', () => {
+    const row = CsvStructure.headerLine
+      .split(',')
+      .map((column) => (column === 'comment' ? '"a comment"' : column === 'filename' ? '"/a.js"' : '""'))
+      .join(',');
+
+    test('should read the header and the lines', async () => {
+      await writeFileContent(reviewFile, `${CsvStructure.headerLine}${EOL}${row}${EOL}`);
+      assert.strictEqual(await getCsvFileHeader(reviewFile), CsvStructure.headerLine);
+      assert.deepStrictEqual(await getCsvFileLinesAsArray(reviewFile), [CsvStructure.headerLine, row]);
+    });
+
+    test('should return an empty header when the file does not exist', async () => {
+      assert.strictEqual(await getCsvFileHeader(reviewFile), '');
+      assert.deepStrictEqual(await getCsvFileLinesAsArray(reviewFile), []);
+    });
+  });
+
+  suite('parseCsvEntries', () => {
+    test('should read the comments', () => {
+      const row = '"a comment","/a.js"';
+      const entries = parseCsvEntries(`comment,filename${EOL}${row}${EOL}`);
+      assert.strictEqual(entries?.length, 1);
+      assert.strictEqual(entries?.[0].comment, 'a comment');
+      assert.strictEqual(entries?.[0].filename, '/a.js');
+    });
+
+    test('should skip the version line', () => {
+      const entries = parseCsvEntries(`${CsvStructure.versionLine}\r\ncomment,title\r\n"a comment","a title"\r\n`);
+      assert.deepStrictEqual(
+        entries?.map((entry) => [entry.comment, entry.title]),
+        [['a comment', 'a title']],
+      );
+    });
+
+    test('should keep the line breaks and the escape sequences of the comments', () => {
+      const entries = parseCsvEntries(`comment${EOL}"first\nsecond \\n"${EOL}`);
+      assert.strictEqual(entries?.[0].comment, 'first\nsecond \\n');
+    });
+
+    test('should return undefined when a quoted field is not terminated', () => {
+      assert.strictEqual(parseCsvEntries(`comment${EOL}"a comment${EOL}`), undefined);
+    });
+  });
+
+  suite('parseCsvFileContent', () => {
+    test('should read the version, the columns and the records', () => {
+      const content = parseCsvFileContent(`${CsvStructure.versionLine}\ncomment,title\n"a comment"\n`);
+      assert.deepStrictEqual(content, {
+        version: CsvStructure.version,
+        columns: ['comment', 'title'],
+        records: [{ comment: 'a comment', title: '' }],
+      });
+    });
+
+    test('should read files without version line as version 1', () => {
+      assert.strictEqual(parseCsvFileContent(`comment${EOL}"a comment"${EOL}`)?.version, 1);
+    });
+  });
+
+  suite('formatCsvFileContent', () => {
+    test('should write the version, the columns and the records', () => {
+      const content: ReviewFileContent = {
+        version: CsvStructure.version,
+        columns: ['comment', 'title'],
+        records: [{ comment: 'a "quoted"\ncomment', title: 'a title' }, { comment: 'another comment' }],
+      };
+      const fileContent = formatCsvFileContent(content, '\r\n');
+      assert.strictEqual(
+        fileContent,
+        `${CsvStructure.versionLine}\r\ncomment,title\r\n"a ""quoted""\ncomment","a title"\r\n"another comment",""\r\n`,
+      );
+      assert.deepStrictEqual(parseCsvFileContent(fileContent)?.records, [
+        content.records[0],
+        { comment: 'another comment', title: '' },
+      ]);
+    });
+  });
+});
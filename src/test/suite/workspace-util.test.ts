@@ -1,5 +1,6 @@
 import * as assert from 'assert';
 import * as fs from 'fs';
+import * as path from 'path';
 import { EOL } from 'os';
 
 import { WorkspaceFolder, Uri, Range, Position } from 'vscode';
@@ -18,11 +19,27 @@ import {
   sortLineSelections,
   sortCsvEntryForLines,
   escapeDoubleQuotesForCsv,
-  escapeEndOfLineForCsv,
   unescapeEndOfLineFromCsv,
   rangeFromStringDefinition,
+  rangesFromStringDefinition,
+  filterCommentsForFile,
+  getWorkspaceFolderOfFile,
+  toWorkspaceRelativePath,
+  resolveWorkspacePath,
+  getBackupFilename,
+  isBackupFilename,
 } from '../../utils/workspace-util';
-import { createCommentFromObject, CsvEntry, CsvStructure } from '../../model';
+import {
+  CommentStatus,
+  createCommentFromObject,
+  createReply,
+  CsvEntry,
+  CsvStructure,
+  getStatusLabel,
+  parseReplies,
+  CommentScope,
+  getCommentScope,
+} from '../../model';
 import { cleanCsvStorage, getCsvFileHeader } from '../../utils/storage-utils';
 
 suite('Workspace Utils', () => {
@@ -102,31 +119,31 @@ suite('Workspace Utils', () => {
   suite('getFileContentForRange', () => {
     const range = new Range(new Position(1, 1), new Position(2, 1));
 
-    test('should return the content from some line in a file', () => {
+    test('should return the content from some line in a file', async () => {
       const filename = 'a.js';
       fs.writeFileSync(filename, `foo${EOL}bar${EOL}baz${EOL}`);
-      const result = getFileContentForRange(filename, range);
+      const result = await getFileContentForRange(filename, range);
       assert.strictEqual(result, 'bar');
       fs.unlinkSync(filename); // cleanup created file
     });
 
-    test('should return an empty string when workspace folder cannot be determined', () => {
-      const result = getFileContentForRange('some-non-existing-file', range);
+    test('should return an empty string when workspace folder cannot be determined', async () => {
+      const result = await getFileContentForRange('some-non-existing-file', range);
       assert.strictEqual(result, '');
     });
   });
 
   suite('getCsvFileHeader', () => {
-    test('should return the content from the first line in a file', () => {
+    test('should return the content from the first line in a file', async () => {
       const filename = 'a.js';
       fs.writeFileSync(filename, `col1,col2,col3${EOL}val1,val2,val3`);
-      const result = getCsvFileHeader(filename);
+      const result = await getCsvFileHeader(Uri.file(path.resolve(filename)));
       assert.strictEqual(result, 'col1,col2,col3');
       fs.unlinkSync(filename); // cleanup created file
     });
 
-    test('should return an empty string when workspace folder cannot be determined', () => {
-      const result = getCsvFileHeader('some-non-existing-file');
+    test('should return an empty string when workspace folder cannot be determined', async () => {
+      const result = await getCsvFileHeader(Uri.file(path.resolve('some-non-existing-file')));
       assert.strictEqual(result, '');
     });
   });
@@ -137,12 +154,6 @@ suite('Workspace Utils', () => {
     });
   });
 
-  suite('escapeEndOfLineForCsv', () => {
-    test('should escape an end-of-line character as expected for CSV files (with a double anti-slash)', () => {
-      assert.strictEqual(escapeEndOfLineForCsv('aa\nbb'), 'aa\\nbb');
-    });
-  });
-
   suite('unescapeEndOfLineFromCsv', () => {
     test('should unescape an end-of-line marker as expected for CSV files (with a true eol)', () => {
       assert.strictEqual(unescapeEndOfLineFromCsv('aa\\nbb'), 'aa\nbb');
@@ -217,6 +228,21 @@ suite('Workspace Utils', () => {
     });
   });
 
+  suite('rangesFromStringDefinition', () => {
+    test('should return a range for every selection', () => {
+      const result = rangesFromStringDefinition('2:1-4:3|8:0-9:5');
+      assert.strictEqual(result.length, 2);
+      assert.strictEqual(result[0].start.line, 1);
+      assert.strictEqual(result[0].end.line, 3);
+      assert.strictEqual(result[1].start.line, 7);
+      assert.strictEqual(result[1].end.character, 5);
+    });
+
+    test('should return no range for an empty definition', () => {
+      assert.strictEqual(rangesFromStringDefinition('').length, 0);
+    });
+  });
+
   suite('sortLineSelections', () => {
     test('should sort the line selection', () => {
       assert.deepStrictEqual(['5:3-12:4', '8:2-10:5'].sort(sortLineSelections), ['5:3-12:4', '8:2-10:5']);
@@ -235,6 +261,14 @@ suite('Workspace Utils', () => {
       category: 'string',
       additional: 'string',
       id: 'string',
+      status: CommentStatus.open,
+      replies: '',
+      author: 'string',
+      created: 'string',
+      updated: 'string',
+      fingerprints: '',
+      orphaned: false,
+      reviewedLines: '',
     };
     const testData: CsvEntry[] = [
       {
@@ -274,6 +308,62 @@ suite('Workspace Utils', () => {
     });
   });
 
+  suite('filterCommentsForFile', () => {
+    const entry = createCommentFromObject(JSON.stringify({ comment: 'some text', lines: '1:0-2:0' }));
+
+    test('should return the comments related to a file', () => {
+      const entries = [
+        { ...entry, filename: '/src/a.ts' },
+        { ...entry, filename: '/src/b.ts' },
+        { ...entry, filename: 'src\\a.ts' },
+      ];
+      const result = filterCommentsForFile(entries, '/foo/bar', '/foo/bar/src/a.ts');
+      assert.strictEqual(result.length, 2);
+    });
+
+    test('should ignore comments without file', () => {
+      const result = filterCommentsForFile([{ ...entry, filename: '' }], '/foo/bar', '/foo/bar');
+      assert.strictEqual(result.length, 0);
+    });
+  });
+
+  suite('multi-root workspaces', () => {
+    const folders: WorkspaceFolder[] = [
+      { uri: Uri.file('/foo/bar'), name: 'bar', index: 0 },
+      { uri: Uri.file('/foo/baz'), name: 'baz', index: 1 },
+      { uri: Uri.file('/foo/bar/packages/qux'), name: 'qux', index: 2 },
+    ];
+    const root = Uri.file('/foo/bar').fsPath;
+
+    test('should get the most nested workspace folder of a file', () => {
+      assert.strictEqual(getWorkspaceFolderOfFile(folders, Uri.file('/foo/baz/a.ts').fsPath)?.name, 'baz');
+      assert.strictEqual(getWorkspaceFolderOfFile(folders, Uri.file('/foo/bar/packages/qux/a.ts').fsPath)?.name, 'qux');
+      assert.strictEqual(getWorkspaceFolderOfFile(folders, Uri.file('/foo/other/a.ts').fsPath), undefined);
+    });
+
+    test('should prefix the files of the other folders with the folder name', () => {
+      const relative = (file: string) => toWorkspaceRelativePath(root, Uri.file(file).fsPath, folders);
+      assert.strictEqual(relative('/foo/bar/src/a.ts'), Uri.file('/src/a.ts').fsPath);
+      assert.strictEqual(relative('/foo/baz/src/a.ts'), Uri.file('/baz/src/a.ts').fsPath);
+      assert.strictEqual(relative('/foo/bar/packages/qux/a.ts'), Uri.file('/qux/a.ts').fsPath);
+    });
+
+    test('should resolve the files of all folders', () => {
+      const resolve = (filename: string) => resolveWorkspacePath(root, filename, folders);
+      assert.strictEqual(resolve('/src/a.ts'), Uri.file('/foo/bar/src/a.ts').fsPath);
+      assert.strictEqual(resolve('/baz/src/a.ts'), Uri.file('/foo/baz/src/a.ts').fsPath);
+      assert.strictEqual(resolve('\\qux\\a.ts'), Uri.file('/foo/bar/packages/qux/a.ts').fsPath);
+      assert.strictEqual(resolve('/bar/a.ts'), Uri.file('/foo/bar/bar/a.ts').fsPath);
+    });
+
+    test('should resolve the files by the name of their folder only', () => {
+      // the directory `baz` of the first folder is shadowed by the folder named `baz`
+      const resolve = (filename: string) => resolveWorkspacePath(root, filename, folders);
+      assert.strictEqual(resolve('/baz/x.ts'), Uri.file('/foo/baz/x.ts').fsPath);
+      assert.strictEqual(resolve('/other/x.ts'), Uri.file('/foo/bar/other/x.ts').fsPath);
+    });
+  });
+
   suite('cleanCsvStorage', () => {
     test('should return zero rows', () => {
       assert.strictEqual(cleanCsvStorage([]).length, 0);
@@ -288,6 +378,30 @@ suite('Workspace Utils', () => {
     });
   });
 
+  suite('isBackupFilename', () => {
+    test('should match the backups of the review file', () => {
+      const reviewFilePath = path.join('/a', 'code-review.csv');
+      assert.ok(isBackupFilename(reviewFilePath, path.basename(getBackupFilename(reviewFilePath))));
+      assert.ok(isBackupFilename(reviewFilePath, 'code-review-2021-0-31T9-5-7.bak'));
+      assert.ok(isBackupFilename(reviewFilePath, path.basename(getBackupFilename(reviewFilePath, 2))));
+      assert.ok(isBackupFilename(reviewFilePath, 'code-review-2021-0-31T9-5-7.12.bak'));
+    });
+
+    test('should number the backups created in the same second', () => {
+      const reviewFilePath = path.join('/a', 'code-review.csv');
+      assert.match(getBackupFilename(reviewFilePath, 1), /T\d+-\d+-\d+\.bak$/);
+      assert.match(getBackupFilename(reviewFilePath, 2), /T\d+-\d+-\d+\.2\.bak$/);
+    });
+
+    test('should not match other files', () => {
+      const reviewFilePath = path.join('/a', 'code-review.csv');
+      assert.ok(!isBackupFilename(reviewFilePath, 'code-review.csv'));
+      assert.ok(!isBackupFilename(reviewFilePath, 'other-2021-0-31T9-5-7.bak'));
+      assert.ok(!isBackupFilename(reviewFilePath, 'code-review-2021-0-31T9-5-7.bak.txt'));
+      assert.ok(!isBackupFilename(path.join('/a', 'code.review.csv'), 'codeXreview-2021-0-31T9-5-7.bak'));
+    });
+  });
+
   suite('createCommentFromObject', () => {
     test('should return object with comment and id', () => {
       const object = createCommentFromObject({ comment: 'some text' });
@@ -296,6 +410,44 @@ suite('Workspace Utils', () => {
     });
   });
 
+  suite('getStatusLabel', () => {
+    test('should return the label of a status', () => {
+      assert.strictEqual(getStatusLabel(CommentStatus.inProgress), 'in progress');
+      assert.strictEqual(getStatusLabel(CommentStatus.wontFix), "won't fix");
+    });
+
+    test('should consider an empty status as open', () => {
+      assert.strictEqual(getStatusLabel(''), 'open');
+      assert.strictEqual(getStatusLabel(undefined), 'open');
+    });
+  });
+
+  suite('getCommentScope', () => {
+    test('should detect the scope of a comment', () => {
+      assert.strictEqual(getCommentScope({ filename: '/a.ts', lines: '1:0-2:3' }), CommentScope.lines);
+      assert.strictEqual(getCommentScope({ filename: '/a.ts', lines: '' }), CommentScope.file);
+      assert.strictEqual(getCommentScope({ filename: '', lines: '' }), CommentScope.project);
+    });
+  });
+
+  suite('parseReplies', () => {
+    test('should return an empty list for empty or invalid values', () => {
+      assert.deepStrictEqual(parseReplies(''), []);
+      assert.deepStrictEqual(parseReplies(undefined), []);
+      assert.deepStrictEqual(parseReplies('{not json'), []);
+      assert.deepStrictEqual(parseReplies('{}'), []);
+    });
+
+    test('should decode the stored replies', () => {
+      const reply = createReply('because of X', 'Jane Doe <jane@example.com>');
+      const result = parseReplies(JSON.stringify([reply]));
+      assert.strictEqual(result.length, 1);
+      assert.strictEqual(result[0].comment, 'because of X');
+      assert.strictEqual(result[0].author, 'Jane Doe <jane@example.com>');
+      assert.notStrictEqual(result[0].id, '');
+    });
+  });
+
   suite('formatAsCsvLine', () => {
     test('should work even with an empty object', () => {
       const object = createCommentFromObject({});
@@ -0,0 +1,140 @@
+import { createHash } from 'crypto';
+import { Range } from 'vscode';
+
+/**
+ * Separator of the fingerprints of the ranges of a comment (same as for the lines definition)
+ */
+const fingerprintSeparator = '|';
+
+/**
+ * Normalize the text of a line, so that changes of the indentation or of the trailing whitespaces are ignored
+ *
+ * @param line The text of the line
+ * @return string
+ */
+const normalizeLine = (line: string): string => line.trim().replace(/\s+/g, ' ');
+
+/**
+ * Number of lines before and after a range which are part of its fingerprint
+ */
+const contextLineCount = 2;
+
+/**
+ * Minimal share of matching lines (of the range and of its context) to relocate a range whose lines were edited
+ */
+const minSimilarity = 0.6;
+
+/**
+ * Compute the hash of a line
+ *
+ * @param line The text of the line
+ * @return string
+ */
+const hashLine = (line: string): string => createHash('sha1').update(normalizeLine(line)).digest('hex').substring(0, 6);
+
+/**
+ * Compute the hashes of the lines of a document, to relocate the ranges of all its comments (see `relocateRange`)
+ *
+ * @param lines All lines of the document
+ * @return string[] The hash of every line
+ */
+export const hashLines = (lines: string[]): string[] => lines.map(hashLine);
+
+/**
+ * Compute the fingerprint of some lines of a document: the hashes of the lines and of the lines around them
+ *
+ * @param lines All lines of the document
+ * @param startLine The first line (zero-based)
+ * @param endLine The last line (zero-based, included)
+ * @return string e.g. `2:1a2b3c.4d5e6f.7a8b9c.0d1e2f` (the number of context lines before the range, then the hashes)
+ */
+export const fingerprintLines = (lines: string[], startLine: number, endLine: number): string => {
+  const first = Math.max(0, startLine - contextLineCount);
+  const last = Math.min(lines.length - 1, endLine + contextLineCount);
+  return `${startLine - first}:${lines
+    .slice(first, last + 1)
+    .map(hashLine)
+    .join('.')}`;
+};
+
+/**
+ * Sort ranges by their start lines (the order of the stored fingerprints)
+ *
+ * @param ranges The ranges to sort
+ * @return Range[] The sorted copy of the ranges
+ */
+export const sortRanges = (ranges: readonly Range[]): Range[] =>
+  [...ranges].sort((a, b) => a.start.line - b.start.line);
+
+/**
+ * Compute the fingerprints of the lines covered by some ranges of a document
+ *
+ * @param lines All lines of the document
+ * @param ranges The ranges of a comment
+ * @return string The fingerprints separated by a `|` sign, in the order of the start lines of the ranges
+ */
+export const getRangesFingerprints = (lines: string[], ranges: readonly Range[]): string =>
+  sortRanges(ranges)
+    .map((range) => fingerprintLines(lines, range.start.line, range.end.line))
+    .join(fingerprintSeparator);
+
+/**
+ * Split the stored fingerprints of a comment
+ *
+ * @param fingerprints The fingerprints separated by a `|` sign
+ * @return string[]
+ */
+export const splitFingerprints = (fingerprints?: string): string[] =>
+  fingerprints ? fingerprints.split(fingerprintSeparator) : [];
+
+/**
+ * Find the new location of a range whose lines may have moved or may have been edited
+ *
+ * The range is relocated to the nearest lines matching all its hashes (moved code),
+ * or to the lines matching most of the hashes of the range and of its context (edited code).
+ *
+ * @param lineHashes The hashes of all lines of the document (see `hashLines`)
+ * @param range The stored range
+ * @param fingerprint The fingerprint of the lines of the range when the comment was made
+ * @return Range The relocated range, or undefined if the lines cannot be found
+ */
+export const relocateRange = (lineHashes: string[], range: Range, fingerprint: string): Range | undefined => {
+  const height = range.end.line - range.start.line;
+  const separatorIndex = fingerprint.indexOf(':');
+  const before = Number(fingerprint.substring(0, separatorIndex));
+  const hashes = fingerprint.substring(separatorIndex + 1).split('.');
+
+  let best: { start: number; similarity: number } | undefined;
+  for (let start = 0; start + height < lineHashes.length; start++) {
+    let matches = 0;
+    let rangeMatches = 0;
+    hashes.forEach((hash, index) => {
+      const line = start - before + index;
+      if (lineHashes[line] === hash) {
+        matches++;
+        rangeMatches += line >= start && line <= start + height ? 1 : 0;
+      }
+    });
+
+    const similarity = matches / hashes.length;
+    if (rangeMatches < height + 1 && similarity < minSimilarity) {
+      continue;
+    }
+    const isBetter =
+      !best ||
+      similarity > best.similarity ||
+      (similarity === best.similarity && Math.abs(start - range.start.line) < Math.abs(best.start - range.start.line));
+    if (isBetter) {
+      best = { start, similarity };
+    }
+  }
+
+  if (!best) {
+    return undefined;
+  }
+  if (best.start === range.start.line) {
+    return range;
+  }
+
+  return new Range(best.start, range.start.character, best.start + height, range.end.character);
+};
@@ -0,0 +1,106 @@
+import { EOL } from 'os';
+
+import { escapeDoubleQuotesForCsv } from './workspace-util';
+
+/**
+ * Helpers to write and read CSV content as specified by RFC 4180:
+ * the fields can contain separators, double quotes and line breaks (CRLF or LF)
+ */
+
+/**
+ * Convert a value to a quoted CSV field
+ *
+ * @param value The value of the field (null and undefined are written as empty fields)
+ * @return string e.g. `"a ""quoted"" value"`
+ */
+export const formatCsvField = (value: unknown): string => {
+  return `"${escapeDoubleQuotesForCsv(String(value ?? ''))}"`;
+};
+
+/**
+ * Convert values to a CSV row (without line break)
+ *
+ * @param values The values of the fields
+ * @param separator The field separator
+ * @return string
+ */
+export const formatCsvRow = (values: unknown[], separator: string = ','): string => {
+  return values.map(formatCsvField).join(separator);
+};
+
+/**
+ * Get the line break used in some content
+ *
+ * @param content The content
+ * @return string The first line break found (CRLF or LF), the line break of the platform if there is none
+ */
+export const detectLineBreak = (content: string): string => {
+  return content.match(/\r?\n/)?.[0] ?? EOL;
+};
+
+/**
+ * Read the rows of some CSV content
+ *
+ * @param content The CSV content
+ * @param separator The field separator
+ * @return string[][] | undefined The fields of each row (empty lines are ignored), or undefined if a quoted field is not terminated
+ */
+export const parseCsv = (content: string, separator: string = ','): string[][] | undefined => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  // an empty line is not a row with a single empty field
+  let emptyLine = true;
+  let index = 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (!emptyLine) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+    emptyLine = true;
+  };
+
+  while (index < content.length) {
+    const char = content[index];
+    emptyLine = emptyLine && !quoted && (char === '\r' || char === '\n');
+
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (content[index + 1] === '"') {
+        // an escaped double quote
+        field += '"';
+        index++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' && content[index + 1] === '\n') {
+      endRow();
+      index++;
+    } else if (char === '\n') {
+      endRow();
+    } else {
+      field += char;
+    }
+
+    index++;
+  }
+
+  if (quoted) {
+    return undefined;
+  }
+  if (!emptyLine) {
+    endRow();
+  }
+
+  return rows;
+};
@@ -33,7 +33,17 @@ export const hasSelection = (editor: TextEditor | null): boolean => {
  * @return string The string represention of the selected lines
  */
 export const getSelectionStringDefinition = (editor: TextEditor): string => {
-  return editor.selections.reduce((acc, cur) => {
+  return getRangesStringDefinition(editor.selections);
+};
+
+/**
+ * Get the string representation of some ranges
+ *
+ * @param ranges The ranges to convert
+ * @return string The string represention of the ranges (e.g. `12:3-15:6|18:1-19:40`)
+ */
+export const getRangesStringDefinition = (ranges: readonly Range[]): string => {
+  return ranges.reduce((acc, cur) => {
     const tmp = acc ? `${acc}|` : '';
     return `${tmp}${cur.start.line + 1}:${cur.start.character}-${cur.end.line + 1}:${cur.end.character}`;
   }, '');
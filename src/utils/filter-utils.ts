@@ -0,0 +1,79 @@
+import { CommentStatus, CsvEntry, getStatusLabel } from '../model';
+
+/**
+ * The filter of the comments shown in the Comment Explorer
+ * (an empty list or text does not restrict the comments)
+ */
+export interface CommentFilter {
+  /** The accepted priorities (0: none, 1: low, 2: medium, 3: high) */
+  priorities: number[];
+  /** The accepted categories */
+  categories: string[];
+  /** The accepted states */
+  statuses: CommentStatus[];
+  /** Text contained in the title, comment, additional text or filename */
+  text: string;
+}
+
+/**
+ * Create a filter accepting all comments
+ *
+ * @return CommentFilter
+ */
+export const createEmptyFilter = (): CommentFilter => ({ priorities: [], categories: [], statuses: [], text: '' });
+
+/**
+ * Check if a filter restricts the comments
+ *
+ * @param filter The filter to check
+ * @return boolean
+ */
+export const isFilterActive = (filter?: CommentFilter): boolean =>
+  !!filter &&
+  (filter.priorities.length > 0 || filter.categories.length > 0 || filter.statuses.length > 0 || !!filter.text.trim());
+
+/**
+ * Check if a comment is accepted by a filter
+ *
+ * @param entry The comment to check
+ * @param filter The filter to apply
+ * @return boolean
+ */
+export const matchesCommentFilter = (entry: CsvEntry, filter?: CommentFilter): boolean => {
+  if (!isFilterActive(filter)) {
+    return true;
+  }
+
+  const text = filter!.text.trim().toLowerCase();
+  const searchable = [entry.title, entry.comment, entry.additional, entry.filename]
+    .filter((value) => value)
+    .join(' ')
+    .toLowerCase();
+
+  return (
+    (!filter!.priorities.length || filter!.priorities.includes(Number(entry.priority) || 0)) &&
+    (!filter!.categories.length || filter!.categories.includes(entry.category || 'Other')) &&
+    (!filter!.statuses.length || filter!.statuses.includes((entry.status || CommentStatus.open) as CommentStatus)) &&
+    (!text || searchable.includes(text))
+  );
+};
+
+/**
+ * Build a short human readable description of a filter
+ *
+ * @param filter The filter to describe
+ * @param priorityName Get the label of a priority
+ * @return string
+ */
+export const describeFilter = (filter: CommentFilter, priorityName: (priority: number) => string): string => {
+  const parts = [
+    ...filter.priorities.map(priorityName),
+    ...filter.categories,
+    ...filter.statuses.map((status) => getStatusLabel(status)),
+  ];
+  if (filter.text.trim()) {
+    parts.push(`"${filter.text.trim()}"`);
+  }
+
+  return parts.join(', ');
+};
@@ -0,0 +1,92 @@
+import { createHash } from 'crypto';
+import { FileSystemError, FileType, Uri, workspace } from 'vscode';
+
+/**
+ * Check if a file exists (for any file system provider)
+ *
+ * @param uri The URI of the file
+ * @return Promise<boolean>
+ */
+export const fileExists = async (uri: Uri): Promise<boolean> => {
+  try {
+    const stat = await workspace.fs.stat(uri);
+    return (stat.type & FileType.File) !== 0;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Read the content of a text file
+ *
+ * @param uri The URI of the file
+ * @return Promise<string | undefined> The content, or undefined if the file does not exist or cannot be read
+ */
+export const readFileContent = async (uri: Uri): Promise<string | undefined> => {
+  try {
+    return Buffer.from(await workspace.fs.readFile(uri)).toString('utf8');
+  } catch (error) {
+    // a missing file is expected (e.g. before the first comment of a review)
+    if (!(error instanceof FileSystemError && error.code === 'FileNotFound')) {
+      console.log('Error reading file', uri.toString(), error);
+    }
+    return undefined;
+  }
+};
+
+/**
+ * Write the content of a text file (the file is created if it does not exist)
+ * The content is written to a temporary file which then replaces the file, so that a crash never leaves it partially written
+ *
+ * @param uri The URI of the file
+ * @param content The content of the file
+ * @return Promise<boolean> true if the operation was successful, false otherwise
+ */
+export const writeFileContent = async (uri: Uri, content: string): Promise<boolean> => {
+  // unique per process, as several windows can write the same file
+  const temporaryUri = uri.with({ path: `${uri.path}.${process.pid}.tmp` });
+  try {
+    await workspace.fs.writeFile(temporaryUri, Buffer.from(content, 'utf8'));
+    await workspace.fs.rename(temporaryUri, uri, { overwrite: true });
+    return true;
+  } catch (error) {
+    console.log('Error writing content of file', uri.toString(), error);
+    await deleteFile(temporaryUri).catch(() => undefined);
+    return false;
+  }
+};
+
+/**
+ * Get the time a file was last modified
+ *
+ * @param uri The URI of the file
+ * @return Promise<number> The modification time (milliseconds since the epoch), 0 if the file does not exist
+ */
+export const getFileModificationTime = async (uri: Uri): Promise<number> => {
+  try {
+    return (await workspace.fs.stat(uri)).mtime;
+  } catch (error) {
+    return 0;
+  }
+};
+
+/**
+ * Compute a hash of some content, to detect its modifications
+ *
+ * @param content The content
+ * @return string
+ */
+export const hashContent = (content: string): string => {
+  return createHash('sha1').update(content, 'utf8').digest('hex');
+};
+
+/**
+ * Delete a file if it exists
+ *
+ * @param uri The URI of the file
+ */
+export const deleteFile = async (uri: Uri): Promise<void> => {
+  if (await fileExists(uri)) {
+    await workspace.fs.delete(uri);
+  }
+};
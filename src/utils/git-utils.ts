@@ -0,0 +1,233 @@
+import { execFile, execFileSync } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Get the configured git user of a repository
+ *
+ * @param gitRepositoryPath The path to the git repository
+ * @return string The user as "name <email>", or an empty string when not configured
+ */
+export const getGitUser = (gitRepositoryPath: string): string => {
+  const name = getGitConfigValue(gitRepositoryPath, 'user.name');
+  const email = getGitConfigValue(gitRepositoryPath, 'user.email');
+
+  if (name && email) {
+    return `${name} <${email}>`;
+  }
+
+  return name || email;
+};
+
+/**
+ * Read a value from the git configuration
+ *
+ * @param gitRepositoryPath The path to the git repository
+ * @param key The configuration key (e.g. `user.name`)
+ * @return string The configured value or an empty string when not available
+ */
+export const getGitConfigValue = (gitRepositoryPath: string, key: string): string => {
+  try {
+    return execFileSync('git', ['config', '--get', key], {
+      cwd: gitRepositoryPath,
+      stdio: ['ignore', 'pipe', 'ignore'],
+    })
+      .toString()
+      .trim();
+  } catch (error) {
+    console.log(`Cannot read git configuration '${key}'`, error);
+    return '';
+  }
+};
+
+/**
+ * Lines of the old version of a file touched by a change
+ */
+export interface DiffHunk {
+  /** The first line (one-based) */
+  start: number;
+  /** The number of changed lines (0 for lines inserted after `start`) */
+  count: number;
+}
+
+/**
+ * Check if a value is the (abbreviated) hash of a commit
+ *
+ * @param sha The value, e.g. read from the review file
+ * @return boolean
+ */
+export const isCommitSha = (sha: string): boolean => /^[0-9a-f]{7,40}$/.test(sha);
+
+/**
+ * Get the diff of a file between a commit and HEAD
+ *
+ * @param gitRepositoryPath The path to the git repository
+ * @param sha The commit to compare with HEAD
+ * @param pathToFile The absolute path of the file
+ * @return Promise<string> The diff without context lines, or undefined when it cannot be computed (e.g. unknown commit)
+ */
+export const getGitDiff = async (
+  gitRepositoryPath: string,
+  sha: string,
+  pathToFile: string,
+): Promise<string | undefined> => {
+  // the values come from the review file: they must not be interpreted as options
+  if (!isCommitSha(sha)) {
+    console.log(`Cannot compute the diff of '${pathToFile}' since the invalid commit '${sha}'`);
+    return undefined;
+  }
+
+  try {
+    const { stdout } = await execFileAsync('git', ['diff', '--unified=0', sha, 'HEAD', '--', pathToFile], {
+      cwd: gitRepositoryPath,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout;
+  } catch (error) {
+    console.log(`Cannot compute the diff of '${pathToFile}' since '${sha}'`, error);
+    return undefined;
+  }
+};
+
+/**
+ * Get the current HEAD commit of a git repository
+ *
+ * @param gitRepositoryPath The path to the git repository
+ * @return Promise<string> The hash of the commit, or an empty string (no commit or not a git repository)
+ */
+export const getGitHead = async (gitRepositoryPath: string): Promise<string> => {
+  try {
+    const { stdout } = await execFileAsync('git', ['rev-parse', '--verify', '--quiet', 'HEAD'], {
+      cwd: gitRepositoryPath,
+    });
+    return stdout.trim();
+  } catch (error) {
+    return '';
+  }
+};
+
+/**
+ * Extract the changed lines of the old version of a file from a diff
+ *
+ * @param diff The diff without context lines (see `getGitDiff`)
+ * @return DiffHunk[]
+ */
+export const parseDiffHunks = (diff: string): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  const hunkHeader = /^@@ -(\d+)(?:,(\d+))? \+\d+(?:,\d+)? @@/gm;
+
+  let match: RegExpExecArray | null;
+  while ((match = hunkHeader.exec(diff))) {
+    hunks.push({ start: Number(match[1]), count: match[2] === undefined ? 1 : Number(match[2]) });
+  }
+
+  return hunks;
+};
+
+/**
+ * Check if some lines of the old version of a file are touched by a change
+ *
+ * @param hunks The changes of the file
+ * @param start The first line (one-based)
+ * @param end The last line (one-based, included)
+ * @return boolean
+ */
+export const isLineRangeChanged = (hunks: DiffHunk[], start: number, end: number): boolean =>
+  hunks.some((hunk) =>
+    hunk.count
+      ? hunk.start <= end && hunk.start + hunk.count - 1 >= start
+      : // lines inserted inside the range
+        hunk.start >= start && hunk.start < end,
+  );
+
+/**
+ * Get the local and remote branches of a repository
+ *
+ * @param gitRepositoryPath The path to the git repository
+ * @return string[] The short names of the branches (e.g. `main`, `origin/main`)
+ */
+export const getGitBranches = (gitRepositoryPath: string): string[] => {
+  try {
+    return execFileSync('git', ['for-each-ref', '--format=%(refname:short)', 'refs/heads', 'refs/remotes'], {
+      cwd: gitRepositoryPath,
+      stdio: ['ignore', 'pipe', 'ignore'],
+    })
+      .toString()
+      .split(/\r?\n/)
+      .filter((branch) => branch && !branch.endsWith('/HEAD'));
+  } catch (error) {
+    console.log('Cannot list the git branches', error);
+    return [];
+  }
+};
+
+/**
+ * Get the name of the checked out branch
+ *
+ * @param gitRepositoryPath The path to the git repository
+ * @return string The short name of the branch, or an empty string (detached HEAD or not a git repository)
+ */
+export const getGitCurrentBranch = (gitRepositoryPath: string): string => {
+  try {
+    return execFileSync('git', ['symbolic-ref', '--short', '-q', 'HEAD'], {
+      cwd: gitRepositoryPath,
+      stdio: ['ignore', 'pipe', 'ignore'],
+    })
+      .toString()
+      .trim();
+  } catch (error) {
+    return '';
+  }
+};
+
+/**
+ * Check if a value is a ref of an existing commit (e.g. `main`, `origin/main`, `v1.0`)
+ *
+ * @param gitRepositoryPath The path to the git repository
+ * @param ref The value, e.g. entered by the user
+ * @return boolean
+ */
+export const isGitRef = (gitRepositoryPath: string, ref: string): boolean => {
+  // must not be interpreted as an option
+  if (!ref || ref.startsWith('-')) {
+    return false;
+  }
+
+  try {
+    execFileSync('git', ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], {
+      cwd: gitRepositoryPath,
+      stdio: ['ignore', 'ignore', 'ignore'],
+    });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Get the files changed on the current branch since it diverged from a base ref (deleted files excluded)
+ *
+ * @param gitRepositoryPath The path to the git repository
+ * @param baseRef The ref the branch is compared to (e.g. `main`)
+ * @return string[] The paths relative to the repository, or undefined when the diff cannot be computed
+ */
+export const getGitChangedFiles = (gitRepositoryPath: string, baseRef: string): string[] | undefined => {
+  if (!isGitRef(gitRepositoryPath, baseRef)) {
+    console.log(`Cannot compute the files changed since the unknown ref '${baseRef}'`);
+    return undefined;
+  }
+
+  try {
+    return execFileSync('git', ['diff', '--name-only', '--diff-filter=d', `${baseRef}...HEAD`, '--'], {
+      cwd: gitRepositoryPath,
+      stdio: ['ignore', 'pipe', 'ignore'],
+    })
+      .toString()
+      .split(/\r?\n/)
+      .filter((file) => file);
+  } catch (error) {
+    console.log(`Cannot compute the files changed since '${baseRef}'`, error);
+    return undefined;
+  }
+};
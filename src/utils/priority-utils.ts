@@ -0,0 +1,50 @@
+import { workspace } from 'vscode';
+
+/**
+ * Get the configured label of a priority (see `code-review.priorities`)
+ *
+ * @param priority The priority (0: none, 1: low, 2: medium, 3: high)
+ * @return string The label of the priority
+ */
+export const getPriorityName = (priority: number): string => {
+  const priorityMap = workspace.getConfiguration().get('code-review.priorities') as string[];
+  return priorityMap[priority];
+};
+
+/**
+ * Get the name of the icon representing a priority
+ *
+ * @param priority The priority (0: none, 1: low, 2: medium, 3: high)
+ * @return string The file name of the icon
+ */
+export const getPriorityIconName = (priority: number): string => {
+  switch (priority) {
+    case 3:
+      return 'red.svg';
+    case 2:
+      return 'yellow.svg';
+    case 1:
+      return 'green.svg';
+    default:
+      return 'unset.svg';
+  }
+};
+
+/**
+ * Get the color representing a priority (same as the icon color)
+ *
+ * @param priority The priority (0: none, 1: low, 2: medium, 3: high)
+ * @return string The CSS color
+ */
+export const getPriorityColor = (priority: number): string => {
+  switch (priority) {
+    case 3:
+      return 'red';
+    case 2:
+      return 'yellow';
+    case 1:
+      return 'green';
+    default:
+      return 'gray';
+  }
+};
@@ -0,0 +1,146 @@
+/**
+ * Hosting services with a known permalink scheme
+ */
+export enum RemoteProvider {
+  github = 'github',
+  gitlab = 'gitlab',
+  bitbucket = 'bitbucket',
+  azure = 'azure',
+  gitea = 'gitea',
+}
+
+/**
+ * A repository hosted on a known service
+ */
+export interface RemoteRepository {
+  provider: RemoteProvider;
+  /** The host name of the web interface (e.g. `github.com`) */
+  host: string;
+  /** The path of the repository without leading slash and `.git` suffix (e.g. `foo/bar`) */
+  path: string;
+  /** The port of the web interface, if not the default one (only known for HTTP(S) remotes) */
+  port?: number;
+}
+
+/**
+ * Additional hosts of self-hosted services
+ */
+export interface RemoteHosts {
+  gitlab: string[];
+  gitea: string[];
+}
+
+/**
+ * Detect the hosting service of a host
+ *
+ * @param host The host name of the remote
+ * @param hosts The additional hosts of self-hosted services
+ * @return RemoteProvider or undefined for unknown hosts
+ */
+const detectProvider = (host: string, hosts: RemoteHosts): RemoteProvider | undefined => {
+  if (host === 'github.com') {
+    return RemoteProvider.github;
+  }
+  if (host === 'gitlab.com' || hosts.gitlab.includes(host)) {
+    return RemoteProvider.gitlab;
+  }
+  if (host === 'bitbucket.org') {
+    return RemoteProvider.bitbucket;
+  }
+  if (host === 'dev.azure.com' || host === 'ssh.dev.azure.com' || host.endsWith('.visualstudio.com')) {
+    return RemoteProvider.azure;
+  }
+  if (host === 'gitea.com' || host === 'codeberg.org' || hosts.gitea.includes(host)) {
+    return RemoteProvider.gitea;
+  }
+  return undefined;
+};
+
+/**
+ * Parse the URL of a git remote (HTTPS, SSH or SCP-like syntax)
+ * e.g. `git@github.com:foo/bar.git` or `https://gitlab.example.com/group/sub/repo.git`
+ *
+ * @param remoteUrl The URL of the remote
+ * @param hosts The additional hosts of self-hosted services
+ * @return RemoteRepository or undefined if the URL is not related to a known service
+ */
+export const parseRemoteUrl = (
+  remoteUrl: string,
+  hosts: RemoteHosts = { gitlab: [], gitea: [] },
+): RemoteRepository | undefined => {
+  const [, scheme, host, port, repositoryPath] =
+    remoteUrl.trim().match(/^(?:([a-z+]+):\/\/)?(?:[^@/]+@)?([^/:]+)(?::(\d+))?[:/](.+?)(?:\.git)?\/?$/i) ?? [];
+  if (!host || !repositoryPath) {
+    return undefined;
+  }
+
+  const lowerHost = host.toLowerCase();
+  const provider = detectProvider(lowerHost, hosts);
+  if (!provider) {
+    return undefined;
+  }
+
+  // the port of SSH remotes is not the one of the web interface
+  const isHttp = /^https?$/i.test(scheme ?? '');
+  return isHttp && port
+    ? { provider, host: lowerHost, path: repositoryPath, port: Number(port) }
+    : { provider, host: lowerHost, path: repositoryPath };
+};
+
+/**
+ * Get the organization, project and repository of an Azure DevOps remote
+ * (`dev.azure.com/org/project/_git/repo`, `ssh.dev.azure.com:v3/org/project/repo`
+ * or `org.visualstudio.com/[DefaultCollection/]project/_git/repo`)
+ *
+ * @param repository The Azure DevOps repository
+ * @return string[] [organization, project, repository]
+ */
+const azureRepositoryParts = (repository: RemoteRepository): string[] => {
+  const parts = repository.path.split('/').filter((part) => part !== '_git' && part !== 'DefaultCollection');
+  if (repository.host === 'ssh.dev.azure.com') {
+    return parts.slice(1);
+  }
+  if (repository.host.endsWith('.visualstudio.com')) {
+    return [repository.host.split('.')[0], ...parts];
+  }
+  return parts;
+};
+
+/**
+ * Build the permalink of some lines of a file
+ *
+ * @param repository The hosted repository
+ * @param sha The commit
+ * @param filePath The path of the file relative to the repository
+ * @param start The first line (one-based), no line anchor is added if not defined
+ * @param end The last line (one-based)
+ * @return string
+ */
+export const buildPermalink = (
+  repository: RemoteRepository,
+  sha: string,
+  filePath: string,
+  start?: number,
+  end?: number,
+): string => {
+  // e.g. `#` and `?` are valid in file names
+  const file = filePath.replace(/\\/g, '/').replace(/^\//, '').split('/').map(encodeURIComponent).join('/');
+  const hasLines = !!start && !!end;
+  const base = `https://${repository.host}${repository.port ? `:${repository.port}` : ''}/${repository.path}`;
+
+  switch (repository.provider) {
+    case RemoteProvider.github:
+      return `${base}/blob/${sha}/${file}${hasLines ? `#L${start}-L${end}` : ''}`;
+    case RemoteProvider.gitlab:
+      return `${base}/-/blob/${sha}/${file}${hasLines ? `#L${start}-${end}` : ''}`;
+    case RemoteProvider.bitbucket:
+      return `${base}/src/${sha}/${file}${hasLines ? `#lines-${start}:${end}` : ''}`;
+    case RemoteProvider.gitea:
+      return `${base}/src/commit/${sha}/${file}${hasLines ? `#L${start}-L${end}` : ''}`;
+    case RemoteProvider.azure:
+      const [organization, project, name] = azureRepositoryParts(repository);
+      // the selection ends at the start of the line following the last line
+      const lines = hasLines ? `&line=${start}&lineEnd=${end! + 1}&lineStartColumn=1&lineEndColumn=1` : '';
+      return `https://dev.azure.com/${organization}/${project}/_git/${name}?path=/${file}&version=GC${sha}${lines}`;
+  }
+};
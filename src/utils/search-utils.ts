@@ -0,0 +1,93 @@
+import { CsvEntry } from '../model';
+
+/**
+ * A parsed search query
+ */
+export interface SearchQuery {
+  /** Words to fuzzy search in the title, comment and additional text */
+  words: string[];
+  /** Values of the `cat:` filters */
+  categories: string[];
+  /** Values of the `prio:` filters */
+  priorities: string[];
+  /** Values of the `file:` filters */
+  files: string[];
+}
+
+/**
+ * Parse a search query with optional filter prefixes
+ * e.g. `cat:arch prio:high file:src/ split method`
+ *
+ * @param input The query entered by the user
+ * @return SearchQuery
+ */
+export const parseSearchQuery = (input: string): SearchQuery => {
+  const query: SearchQuery = { words: [], categories: [], priorities: [], files: [] };
+
+  input
+    .split(/\s+/)
+    .filter((token) => token)
+    .forEach((token) => {
+      const [, prefix, value] = token.match(/^(cat|prio|file):(.*)$/i) ?? [];
+      switch (prefix?.toLowerCase()) {
+        case 'cat':
+          query.categories.push(value.toLowerCase());
+          break;
+        case 'prio':
+          query.priorities.push(value.toLowerCase());
+          break;
+        case 'file':
+          query.files.push(value.toLowerCase());
+          break;
+        default:
+          query.words.push(token.toLowerCase());
+          break;
+      }
+    });
+
+  return query;
+};
+
+/**
+ * Check if all characters of a query appear in the same order in a text (case insensitive)
+ *
+ * @param query The searched characters
+ * @param text The text to search in
+ * @return boolean
+ */
+export const fuzzyMatch = (query: string, text: string): boolean => {
+  const lowerText = text.toLowerCase();
+  let position = 0;
+
+  for (const character of query.toLowerCase()) {
+    position = lowerText.indexOf(character, position);
+    if (position < 0) {
+      return false;
+    }
+    position++;
+  }
+
+  return true;
+};
+
+/**
+ * Check if a comment matches a search query
+ *
+ * @param entry The comment to check
+ * @param query The parsed search query
+ * @param priorityName The label of the priority of the comment
+ * @return boolean
+ */
+export const matchesSearchQuery = (entry: CsvEntry, query: SearchQuery, priorityName: string): boolean => {
+  const category = (entry.category || '').toLowerCase();
+  const filename = (entry.filename || '').toLowerCase();
+  const priorities = [String(entry.priority || 0), (priorityName || '').toLowerCase()];
+  const text = [entry.title, entry.comment, entry.additional].filter((value) => value).join(' ');
+
+  return (
+    query.categories.every((value) => category.includes(value)) &&
+    query.priorities.every((value) => priorities.some((priority) => priority.startsWith(value))) &&
+    query.files.every((value) => filename.includes(value)) &&
+    query.words.every((word) => fuzzyMatch(word, text))
+  );
+};
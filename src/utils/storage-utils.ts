@@ -1,5 +1,9 @@
-import * as fs from 'fs';
-import { EOL } from 'os';
+import { Uri } from 'vscode';
+
+import { ReviewFileContent, ReviewRecord } from '../interfaces';
+import { CsvEntry, CsvStructure } from '../model';
+import { formatCsvRow, parseCsv } from './csv-utils';
+import { readFileContent } from './fs-utils';
 
 /**
  * Keep only valid lines for storage
@@ -14,54 +18,99 @@ export function cleanCsvStorage(rows: string[]): string[] {
 /**
  * Get the lines as stored in CSV
  *
- * @param pathToFile The path to the CSV file
- * @return Generator<string>
+ * @param uri The URI of the CSV file
+ * @return Promise<string[]> The lines, or an empty list if the file cannot be read
  */
-export function* getCsvFileLinesAsIterable(pathToFile: string): Generator<string> {
-  let fileContent = '';
-  try {
-    fileContent = fs.readFileSync(pathToFile, 'utf8');
-  } catch (error) {
-    console.log('Error reading header from file', pathToFile, error);
-    return;
-  }
+export async function getCsvFileLinesAsArray(uri: Uri): Promise<string[]> {
+  const fileContent = await readFileContent(uri);
+  return fileContent === undefined ? [] : cleanCsvStorage(fileContent.split(/\r?\n/));
+}
+
+/**
+ * Get the CSV file header (first line, after the version line)
+ *
+ * @param uri The URI of the CSV file
+ * @return Promise<string> The header, or an empty string if the file cannot be read
+ */
+export const getCsvFileHeader = async (uri: Uri): Promise<string> => {
+  const lines = await getCsvFileLinesAsArray(uri);
+  const hasVersionLine = lines[0]?.startsWith('#');
+  return lines[hasVersionLine ? 1 : 0] ?? '';
+};
+
+/**
+ * Get the version of the format of the CSV file (see `CsvStructure.version`)
+ *
+ * @param uri The URI of the CSV file
+ * @return Promise<number> The version
+ */
+export const getCsvFileVersion = async (uri: Uri): Promise<number> => {
+  return CsvStructure.parseVersionLine((await getCsvFileLinesAsArray(uri))[0] ?? '');
+};
 
-  for (const line of cleanCsvStorage(fileContent.split(EOL))) {
-    yield line;
+/**
+ * Read the comments from the content of a CSV file
+ *
+ * @param fileContent The content of the CSV file
+ * @return CsvEntry[] | undefined The comments, or undefined if the content is not valid CSV
+ */
+export function parseCsvEntries(fileContent: string): CsvEntry[] | undefined {
+  const content = parseCsvFileContent(fileContent);
+  if (!content) {
+    console.log('Error reading comments: invalid CSV content');
   }
+
+  return content?.records as CsvEntry[] | undefined;
 }
 
 /**
- * Get the lines as stored in CSV
+ * Read the content of a CSV file without any conversion
  *
- * @param pathToFile The path to the CSV file
- * @return string[]
+ * @param fileContent The content of the CSV file
+ * @return ReviewFileContent | undefined The content, or undefined if the content is not valid CSV
  */
-export function getCsvFileLinesAsArray(pathToFile: string): string[] {
-  return Array.from(getCsvFileLinesAsIterable(pathToFile));
+export function parseCsvFileContent(fileContent: string): ReviewFileContent | undefined {
+  const version = CsvStructure.parseVersionLine(fileContent.split(/\r?\n/, 1)[0]);
+  const rows = parseCsv(removeCsvVersionLine(fileContent), CsvStructure.separator);
+  if (!rows) {
+    return undefined;
+  }
+
+  const [columns = [], ...values] = rows;
+  const records = values.map((fields) => {
+    // the missing fields are empty
+    const record: ReviewRecord = {};
+    columns.forEach((column, index) => (record[column] = fields[index] ?? ''));
+    return record;
+  });
+  return { version, columns, records };
 }
+
 /**
- * Get the CSV file header (first line)
+ * Write the content of a CSV file in the current schema version without any conversion (see `parseCsvFileContent`)
  *
- * @param pathToFile The actual file path
+ * @param content The content, e.g. migrated to the current schema (see `planSchemaMigration`)
+ * @param lineBreak The line break of the file
+ * @return string
  */
-export const getCsvFileHeader = (pathToFile: string): string => {
-  return getCsvFileLinesAsIterable(pathToFile).next().value;
-};
+export function formatCsvFileContent(content: ReviewFileContent, lineBreak: string): string {
+  const rows = content.records.map((record) =>
+    formatCsvRow(
+      content.columns.map((column) => record[column]),
+      CsvStructure.separator,
+    ),
+  );
+  return [CsvStructure.versionLine, content.columns.join(CsvStructure.separator), ...rows]
+    .map((line) => `${line}${lineBreak}`)
+    .join('');
+}
 
 /**
- * Write the content of the CSV file
+ * Remove the version line of a CSV file, as it is not part of the CSV content
  *
- * @param pathToFile The path to the file to write
- * @param fileContent The content of the file
- * @return boolean true if the operation was successful, false otherwise
+ * @param fileContent The content of the CSV file
+ * @return string
  */
-export function setCsvFileContent(pathToFile: string, fileContent: string): boolean {
-  try {
-    fs.writeFileSync(pathToFile, fileContent, 'utf8');
-    return true;
-  } catch (error) {
-    console.log('Error writing content of file', pathToFile, error);
-    return false;
-  }
+function removeCsvVersionLine(fileContent: string): string {
+  return fileContent.startsWith('#') ? fileContent.replace(/^.*(\r?\n|$)/, '') : fileContent;
 }
@@ -1,8 +1,8 @@
 import * as path from 'path';
-import * as fs from 'fs';
-import { WorkspaceFolder, Position, Range } from 'vscode';
+import { WorkspaceFolder, Position, Range, Uri, workspace } from 'vscode';
 import { EOL } from 'os';
 import { CsvEntry } from '../model';
+import { readFileContent } from './fs-utils';
 
 /**
  * remove a trailing slash from a string when exists
@@ -44,40 +44,144 @@ export const toAbsolutePath = (workspaceRoot: string, filename: string): string
   return path.resolve(workspaceRoot, removeLeadingSlash(harmonizedFileName));
 };
 
+/**
+ * Get the workspace folder containing a file (the most nested one for nested folders)
+ * @param folders the workspace folder objects from vscode (via: `vscode.workspace.workspaceFolders`)
+ * @param pathToFile the absolute file path
+ */
+export const getWorkspaceFolderOfFile = (
+  folders: readonly WorkspaceFolder[] | undefined,
+  pathToFile: string,
+): WorkspaceFolder | undefined =>
+  (folders ?? [])
+    .filter((folder) => {
+      const relativePath = path.relative(folder.uri.fsPath, pathToFile);
+      return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    })
+    .sort((a, b) => b.uri.fsPath.length - a.uri.fsPath.length)[0];
+
+/**
+ * Get the filename of a file as stored in the comments, relative to its workspace folder
+ * In multi-root workspaces, the files of the other folders than the first one are prefixed with the name of their folder
+ * (e.g. `/backend/src/file.ts`)
+ * @param workspaceRoot the workspace root path (first folder)
+ * @param pathToFile the absolute file path
+ * @param folders the workspace folder objects from vscode
+ */
+export const toWorkspaceRelativePath = (
+  workspaceRoot: string,
+  pathToFile: string,
+  folders: readonly WorkspaceFolder[] | undefined = workspace.workspaceFolders,
+): string => {
+  const folder = getWorkspaceFolderOfFile(folders, pathToFile);
+  if (!folder || folder.uri.fsPath === workspaceRoot) {
+    return pathToFile.replace(workspaceRoot, '');
+  }
+
+  return `${path.sep}${folder.name}${pathToFile.replace(folder.uri.fsPath, '')}`;
+};
+
+/**
+ * Get the absolute path of a filename stored in the comments (see `toWorkspaceRelativePath`)
+ * A filename starting with the name of another folder belongs to that folder, even if the first folder has a directory
+ * with the same name (the file system is not checked, as the comments of all files are resolved on each refresh)
+ * @param workspaceRoot the workspace root path (first folder)
+ * @param filename the stored filename
+ * @param folders the workspace folder objects from vscode
+ */
+export const resolveWorkspacePath = (
+  workspaceRoot: string,
+  filename: string,
+  folders: readonly WorkspaceFolder[] | undefined = workspace.workspaceFolders,
+): string => {
+  const [folderName, ...segments] = removeLeadingSlash(filename.replace(/\\/g, '/')).split('/');
+  const folder = (folders ?? []).find(
+    (candidate) => candidate.name === folderName && candidate.uri.fsPath !== workspaceRoot,
+  );
+
+  if (!folder) {
+    return toAbsolutePath(workspaceRoot, filename);
+  }
+
+  return toAbsolutePath(folder.uri.fsPath, segments.join('/'));
+};
+
+/**
+ * Get the URI of a file, the scheme of its workspace folder is kept (e.g. for virtual workspaces)
+ * @param pathToFile the absolute file path
+ * @param folders the workspace folder objects from vscode
+ */
+export const toWorkspaceUri = (
+  pathToFile: string,
+  folders: readonly WorkspaceFolder[] | undefined = workspace.workspaceFolders,
+): Uri => {
+  const folder = getWorkspaceFolderOfFile(folders, pathToFile);
+  if (!folder || folder.uri.scheme === 'file') {
+    return Uri.file(path.resolve(pathToFile));
+  }
+
+  const segments = path.relative(folder.uri.fsPath, pathToFile).split(path.sep);
+  return Uri.joinPath(folder.uri, ...segments.filter((segment) => segment));
+};
+
+/**
+ * Get the path of the git repository (see the setting `code-review.gitDirectory`)
+ * @param workspaceRoot the workspace root path (or the path of a workspace folder)
+ */
+export const getGitRepositoryPath = (workspaceRoot: string): string => {
+  const gitDirectory = workspace
+    .getConfiguration(undefined, Uri.file(workspaceRoot))
+    .get('code-review.gitDirectory') as string;
+  return path.resolve(workspaceRoot, gitDirectory);
+};
+
+/**
+ * Get the path of the git repository of a file (see the setting `code-review.gitDirectory` of its workspace folder)
+ * @param workspaceRoot the workspace root path (first folder)
+ * @param pathToFile the absolute file path
+ * @param folders the workspace folder objects from vscode
+ */
+export const getGitRepositoryPathOfFile = (
+  workspaceRoot: string,
+  pathToFile: string,
+  folders: readonly WorkspaceFolder[] | undefined = workspace.workspaceFolders,
+): string => getGitRepositoryPath(getWorkspaceFolderOfFile(folders, pathToFile)?.uri.fsPath ?? workspaceRoot);
+
 /**
  * Get the content of a file for a defined line range
  * @param pathToFile the actual file path and name
  * @param range the selection range
  */
-export const getFileContentForRange = (pathToFile: string, range: Range): string => {
-  let fileContent = '';
-  try {
-    fileContent = fs.readFileSync(pathToFile, 'utf8');
-  } catch (error) {
-    console.log('Error reading file', pathToFile, error);
-  }
+export const getFileContentForRange = async (pathToFile: string, range: Range): Promise<string> => {
+  const fileContent = (await readFileContent(toWorkspaceUri(pathToFile))) ?? '';
   const fileContentLines = fileContent.split(EOL);
   return fileContentLines.slice(range.start.line, range.end.line).join(EOL);
 };
 
 /**
- * Double quotes must be escaped in CSV files using another leading double quote
- * @param input the string that should be escaped
+ * Get the lines of a file, the content of an opened document takes precedence over the stored one
+ * @param pathToFile the absolute file path
  */
-export const escapeDoubleQuotesForCsv = (input: string): string => {
-  return input.replace(/"/g, '""');
+export const getDocumentLines = async (pathToFile: string): Promise<string[]> => {
+  const document = workspace.textDocuments.find((doc) => doc.uri.fsPath === path.normalize(pathToFile));
+  if (document) {
+    return document.getText().split(/\r?\n/);
+  }
+
+  const fileContent = await readFileContent(toWorkspaceUri(pathToFile));
+  return fileContent === undefined ? [] : fileContent.split(/\r?\n/);
 };
 
 /**
- * End-of-line must be escaped in CSV files to prevent row discontinuity
+ * Double quotes must be escaped in CSV files using another leading double quote
  * @param input the string that should be escaped
  */
-export const escapeEndOfLineForCsv = (input: string): string => {
-  return input.replace(/\n/g, '\\n');
+export const escapeDoubleQuotesForCsv = (input: string): string => {
+  return input.replace(/"/g, '""');
 };
 
 /**
- * Restore escaped end-of-line for manipulation
+ * Restore the end-of-line escaped in the first version of the CSV files (see `CsvStructure.version`)
  * @param input the string that should be unescaped
  */
 export const unescapeEndOfLineFromCsv = (input: string): string => {
@@ -138,6 +242,27 @@ export const rangeFromStringDefinition = (input: string, offset: number = 0): Ra
   );
 };
 
+/**
+ * Get all the ranges of the lines string representation for CSV files
+ * @param input the input string (e.g. `12:3-15:6|18:1-19:40`)
+ */
+export const rangesFromStringDefinition = (input: string): Range[] =>
+  input
+    .split('|')
+    .filter((range) => range)
+    .map((range) => rangeFromStringDefinition(range));
+
+/**
+ * Get the comments related to a file
+ * @param entries all comments
+ * @param workspaceRoot the workspace path
+ * @param pathToFile the absolute path of the file
+ */
+export const filterCommentsForFile = (entries: CsvEntry[], workspaceRoot: string, pathToFile: string): CsvEntry[] =>
+  entries.filter(
+    (entry) => entry.filename && resolveWorkspacePath(workspaceRoot, entry.filename) === path.normalize(pathToFile),
+  );
+
 /**
  * Sort function to order the lines string representation for CSV files
  * @param localA compare value a
@@ -178,15 +303,29 @@ export const sortCsvEntryForLines = (a: CsvEntry, b: CsvEntry): number => {
  * Generate a backup file name
  *
  * @param reviewFilePath The full name of the file to backup
+ * @param index The number of the backup created in the same second (from 1, only appended from 2)
  * @return string
  */
-export const getBackupFilename = (reviewFilePath: string): string => {
+export const getBackupFilename = (reviewFilePath: string, index: number = 1): string => {
   const date = new Date();
   const timeStamp = `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}T${date.getHours()}-${date.getMinutes()}-${date.getSeconds()}`;
+  const suffix = index > 1 ? `.${index}` : '';
   const backupFilePath = path.join(
     path.dirname(reviewFilePath),
-    path.parse(reviewFilePath).name + '-' + timeStamp + '.bak',
+    path.parse(reviewFilePath).name + '-' + timeStamp + suffix + '.bak',
   );
 
   return backupFilePath;
 };
+
+/**
+ * Check if a file is a backup of a review file (see `getBackupFilename`)
+ *
+ * @param reviewFilePath The full name of the review file
+ * @param fileName The name of the candidate file
+ * @return boolean
+ */
+export const isBackupFilename = (reviewFilePath: string, fileName: string): boolean => {
+  const name = path.parse(reviewFilePath).name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${name}-\\d{4}-\\d{1,2}-\\d{1,2}T\\d{1,2}-\\d{1,2}-\\d{1,2}(?:\\.\\d+)?\\.bak$`).test(fileName);
+};
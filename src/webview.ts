@@ -1,11 +1,27 @@
-import { window, ViewColumn, ExtensionContext, workspace, Range, WebviewPanel, Uri, TextEditor } from 'vscode';
+import {
+  window,
+  ViewColumn,
+  ExtensionContext,
+  workspace,
+  Range,
+  WebviewPanel,
+  Uri,
+  TextEditor,
+  TextEditorDecorationType,
+} from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 
 import { ReviewCommentService } from './review-comment';
-import { createCommentFromObject, CsvEntry } from './model';
-import { CommentListEntry } from './comment-list-entry';
-import { unescapeEndOfLineFromCsv } from './utils/workspace-util';
+import {
+  CommentScope,
+  CommentStatus,
+  commentStatusLabels,
+  createCommentFromObject,
+  CsvEntry,
+  getCommentScope,
+  parseReplies,
+} from './model';
 import { clearSelection, colorizeSelection, getSelectionRanges } from './utils/editor-utils';
 
 export class WebViewComponent {
@@ -54,29 +70,34 @@ export class WebViewComponent {
     this.editor = null;
   }
 
-  deleteComment(commentService: ReviewCommentService, entry: CommentListEntry) {
-    commentService.deleteComment(entry);
+  async deleteComment(commentService: ReviewCommentService, comment: CsvEntry) {
+    await commentService.deleteComment(comment.id);
     this.panel?.dispose();
   }
 
-  editComment(commentService: ReviewCommentService, selections: Range[], data: CsvEntry) {
-    const editor = this.getWorkingEditor();
-    // Clear the current text selection to avoid unwanted code selection changes.
-    // (see `ReviewCommentService::getSelectedLines()`).
-    clearSelection(editor);
-    // highlight selection
-    const decoration = colorizeSelection(selections, editor);
+  async editComment(commentService: ReviewCommentService, selections: Range[], data: CsvEntry) {
+    // the modifications of the comment made while the panel is opened are detected when it is stored
+    await commentService.startEdit(data.id);
+
+    // comments on a whole file or on the whole project are not related to the editor selection
+    const editor = getCommentScope(data) === CommentScope.lines ? this.getWorkingEditor() : null;
+    let decoration: TextEditorDecorationType | undefined;
+    if (editor) {
+      // Clear the current text selection to avoid unwanted code selection changes.
+      // (see `ReviewCommentService::getSelectedLines()`).
+      clearSelection(editor);
+      // highlight selection
+      decoration = colorizeSelection(selections, editor);
+    }
 
     // initialize new web tab
-    const panel = this.showPanel('Edit code review comment', editor.document.fileName);
+    const panel = this.showPanel('Edit code review comment', editor?.document.fileName ?? this.scopeTitle(data));
     // const pathToHtml = Uri.file(path.join(this.context.extensionPath, 'src', 'webview.html'));
     // const pathUri = pathToHtml.with({ scheme: 'vscode-resource' });
     // panel.webview.html = fs.readFileSync(pathUri.fsPath, 'utf8');
     // const priorities = workspace.getConfiguration().get('code-review.priorities') as string[];
 
-    data.comment = unescapeEndOfLineFromCsv(data.comment);
-
-    panel.webview.postMessage({ comment: { ...data } });
+    panel.webview.postMessage({ comment: { ...data }, replies: parseReplies(data.replies) });
 
     // Handle messages from the webview
     panel.webview.onDidReceiveMessage(
@@ -91,11 +112,18 @@ export class WebViewComponent {
               comment: formData.comment || '',
               category: formData.category || '',
               priority: formData.priority || 0,
+              status: formData.status || CommentStatus.open,
             };
-            commentService.updateComment(newEntry, this.getWorkingEditor());
+            commentService.updateComment(newEntry, editor ? this.getWorkingEditor() : null);
             panel.dispose();
             break;
 
+          case 'reply':
+            commentService.addReply(data, message.text).then(() => {
+              panel.webview.postMessage({ replies: parseReplies(data.replies) });
+            });
+            break;
+
           case 'cancel':
             panel.dispose();
             break;
@@ -107,8 +135,9 @@ export class WebViewComponent {
 
     panel.onDidDispose(() => {
       // reset highlight selected lines
-      decoration.dispose();
+      decoration?.dispose();
       this.disposeWorkingEditor();
+      commentService.endEdit(data.id);
     });
   }
 
@@ -147,6 +176,63 @@ export class WebViewComponent {
     });
   }
 
+  /**
+   * Add a comment related to a whole file
+   *
+   * @param commentService The service storing the comment
+   * @param fileName The absolute path of the file
+   */
+  addFileComment(commentService: ReviewCommentService, fileName: string) {
+    this.addCommentWithoutSelection('Add code review comment for file', fileName, (comment) =>
+      commentService.addFileComment(comment, fileName),
+    );
+  }
+
+  /**
+   * Add a comment related to the whole project
+   *
+   * @param commentService The service storing the comment
+   */
+  addProjectComment(commentService: ReviewCommentService) {
+    this.addCommentWithoutSelection('Add general code review comment', 'Project', (comment) =>
+      commentService.addProjectComment(comment),
+    );
+  }
+
+  /**
+   * Show the panel to add a comment which is not related to a selection
+   *
+   * @param title The title of the panel
+   * @param fileName The name displayed in the panel
+   * @param store Store the submitted comment
+   */
+  private addCommentWithoutSelection(title: string, fileName: string, store: (comment: CsvEntry) => Promise<void>) {
+    const panel = this.showPanel(title, fileName);
+
+    // Handle messages from the webview
+    panel.webview.onDidReceiveMessage(
+      (message) => {
+        if (message.command === 'submit') {
+          store(createCommentFromObject(message.text));
+        }
+
+        panel.dispose();
+      },
+      undefined,
+      this.context.subscriptions,
+    );
+  }
+
+  /**
+   * Get the name displayed in the panel for a comment which is not related to a selection
+   *
+   * @param data The comment
+   * @return string
+   */
+  private scopeTitle(data: CsvEntry): string {
+    return getCommentScope(data) === CommentScope.project ? 'Project' : data.filename;
+  }
+
   private createWebView(title: string): WebviewPanel {
     return window.createWebviewPanel(
       'text',
@@ -163,6 +249,10 @@ export class WebViewComponent {
     let selectListString = this.categories.reduce((current, category) => {
       return (current += `<option value="${category}">${category}</option>`);
     }, '');
+    let statusListString = '';
+    commentStatusLabels.forEach((label, status) => {
+      statusListString += `<option value="${status}">${label}</option>`;
+    });
     const uri = Uri.parse(this.context.asAbsolutePath(path.join('dist', 'webview.html')));
     const pathUri = uri.with({ scheme: 'vscode-resource' });
     // const linesString = selections.reduce((prev, curr) => {
@@ -172,6 +262,7 @@ export class WebViewComponent {
     return fs
       .readFileSync(pathUri.fsPath, 'utf8')
       .replace('SELECT_LIST_STRING', selectListString)
+      .replace('STATUS_LIST_STRING', statusListString)
       .replace('FILENAME', path.basename(fileName));
   }
 }